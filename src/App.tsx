@@ -1,33 +1,59 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useGameStore } from './stores/gameStore';
 import { SongSearch } from './components/SongSearch';
 import { GameView } from './components/GameView';
 import { AudioUpload } from './components/AudioUpload';
 import { DifficultySelector } from './components/DifficultySelector';
+import { SyncEditor } from './components/SyncEditor';
+import { ErrorStats } from './components/ErrorStats';
+import { ProfileBackup } from './components/ProfileBackup';
+import { ProfileSwitcher } from './components/ProfileSwitcher';
+import { HouseholdLeaderboard } from './components/HouseholdLeaderboard';
+import { ProgressDashboard } from './components/ProgressDashboard';
 import { getTopScores, hasSeenOnboarding, setOnboardingSeen } from './utils/storage';
+import { dismissRepairNotice, getRepairCount, subscribeToRepairs } from './utils/storageSchema';
+import type { HighScore } from './types';
 import './index.css';
 
-type View = 'search' | 'setup' | 'game';
+type View = 'search' | 'setup' | 'game' | 'editor' | 'stats' | 'progress';
 
 function App() {
   const [view, setView] = useState<View>('search');
   const [showOnboarding, setShowOnboarding] = useState(() => !hasSeenOnboarding());
-  const { currentSong, audioUrl } = useGameStore();
-  const topScores = getTopScores(5);
+  const [repairedCount, setRepairedCount] = useState(getRepairCount);
+  const [showBackup, setShowBackup] = useState(false);
+  const [dataVersion, setDataVersion] = useState(0);
+  const { currentSong, audioUrl, lyrics } = useGameStore();
+  const [topScores, setTopScores] = useState<HighScore[]>([]);
+
+  useEffect(() => subscribeToRepairs(setRepairedCount), []);
+
+  useEffect(() => {
+    if (view !== 'search') return;
+    getTopScores(5)
+      .then(setTopScores)
+      .catch(error => console.error('Rankings load error:', error));
+  }, [view, dataVersion]);
 
   const handleDismissOnboarding = () => {
     setOnboardingSeen();
     setShowOnboarding(false);
   };
 
+  const handleDismissRepairNotice = () => {
+    dismissRepairNotice();
+  };
+
   const handleSongSelected = () => {
     if (currentSong) {
       setView('setup');
     }
   };
 
+  const hasTimedLyrics = !!lyrics && lyrics.lines.length > 0;
+
   const handleStartGame = () => {
-    if (currentSong && audioUrl) {
+    if (currentSong && audioUrl && hasTimedLyrics) {
       setView('game');
     }
   };
@@ -40,9 +66,44 @@ function App() {
     return <GameView onBackToSearch={handleBackToSearch} />;
   }
 
+  if (view === 'editor') {
+    return <SyncEditor onClose={() => setView('setup')} />;
+  }
+
+  if (view === 'stats') {
+    return <ErrorStats onClose={() => setView('search')} />;
+  }
+
+  if (view === 'progress') {
+    return <ProgressDashboard onClose={() => setView('search')} />;
+  }
+
   return (
     <div className="min-h-screen p-4 md:p-8 flex flex-col items-center">
 
+      {repairedCount > 0 && (
+        <div className="fixed top-4 left-1/2 -translate-x-1/2 z-40 w-full max-w-lg px-4 animate-slide-up">
+          <div className="flex items-start gap-4 p-4 bg-amber-500/10 border border-amber-500/40 rounded-2xl backdrop-blur-md">
+            <p className="flex-1 text-sm text-amber-200">
+              Some saved data could not be read and was set aside ({repairedCount} {repairedCount === 1 ? 'record' : 'records'}). Everything else was kept.
+            </p>
+            <button
+              onClick={handleDismissRepairNotice}
+              className="text-xs font-mono text-amber-300/70 hover:text-amber-200 transition-colors"
+            >
+              DISMISS
+            </button>
+          </div>
+        </div>
+      )}
+
+      {showBackup && (
+        <ProfileBackup
+          onClose={() => setShowBackup(false)}
+          onImported={() => setDataVersion(v => v + 1)}
+        />
+      )}
+
       {showOnboarding && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-md p-4">
           <div className="bg-deep-surface border border-white/10 rounded-3xl p-8 max-w-lg w-full max-h-[90vh] overflow-y-auto animate-slide-up">
@@ -132,6 +193,26 @@ function App() {
           </p>
 
 
+          <button
+            onClick={() => setView('stats')}
+            className="absolute top-4 left-4 px-3 py-2 rounded-lg text-xs font-mono text-white/40 hover:text-white hover:bg-white/10 transition-all flex items-center gap-2"
+          >
+            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
+            </svg>
+            STATS
+          </button>
+
+          <button
+            onClick={() => setShowBackup(true)}
+            className="absolute top-14 left-4 px-3 py-2 rounded-lg text-xs font-mono text-white/40 hover:text-white hover:bg-white/10 transition-all flex items-center gap-2"
+          >
+            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
+            </svg>
+            BACKUP
+          </button>
+
           <button
             onClick={() => setShowOnboarding(true)}
             className="absolute top-4 right-4 px-3 py-2 rounded-lg text-xs font-mono text-white/40 hover:text-white hover:bg-white/10 transition-all flex items-center gap-2"
@@ -147,6 +228,8 @@ function App() {
           <div className="animate-slide-up space-y-12">
 
 
+            <ProfileSwitcher onSwitch={() => setDataVersion(v => v + 1)} />
+
             <div className="relative z-10">
               <SongSearch />
 
@@ -168,7 +251,7 @@ function App() {
 
 
             <div className="max-w-4xl mx-auto border-t border-white/5 pt-12">
-              <h2 className="text-center font-display text-2xl text-white/40 mb-8 tracking-widest">GLOBAL RANKINGS</h2>
+              <h2 className="text-center font-display text-2xl text-white/40 mb-8 tracking-widest">PLAYER RANKINGS</h2>
 
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
                 {topScores.map((score, index) => (
@@ -188,6 +271,15 @@ function App() {
                   </div>
                 )}
               </div>
+
+              <div className="text-center mt-8">
+                <button
+                  onClick={() => setView('progress')}
+                  className="px-6 py-3 rounded-xl border border-white/10 text-white/60 font-mono text-sm tracking-widest uppercase hover:text-white hover:bg-white/10 transition-all"
+                >
+                  View Progress →
+                </button>
+              </div>
             </div>
           </div>
         )}
@@ -212,6 +304,22 @@ function App() {
                   <p className="font-mono text-neon-blue tracking-widest uppercase">
                     {currentSong.artistName}
                   </p>
+                  {lyrics && (lyrics.metadata.creator || lyrics.metadata.editor || lyrics.metadata.offset) && (
+                    <div className="mt-4 flex flex-wrap justify-center gap-x-4 gap-y-1 font-mono text-xs text-white/40">
+                      {lyrics.metadata.creator && <span>LRC BY {lyrics.metadata.creator}</span>}
+                      {lyrics.metadata.editor && (
+                        <span>
+                          {lyrics.metadata.editor}
+                          {lyrics.metadata.editorVersion ? ` v${lyrics.metadata.editorVersion}` : ''}
+                        </span>
+                      )}
+                      {!!lyrics.metadata.offset && (
+                        <span className="text-neon-purple">
+                          OFFSET {lyrics.metadata.offset > 0 ? '+' : ''}{lyrics.metadata.offset}ms
+                        </span>
+                      )}
+                    </div>
+                  )}
                 </div>
 
                 <div className="space-y-8">
@@ -224,14 +332,34 @@ function App() {
                     <label className="text-xs font-mono text-white/40 uppercase tracking-widest ml-1">Audio Source</label>
                     <AudioUpload />
                   </div>
+
+                  <div className="space-y-4">
+                    <label className="text-xs font-mono text-white/40 uppercase tracking-widest ml-1">Household Leaderboard</label>
+                    <HouseholdLeaderboard songId={currentSong.id.toString()} />
+                  </div>
+                </div>
+
+                <div className="flex flex-col items-center gap-3">
+                  {!hasTimedLyrics && (
+                    <p className="font-mono text-sm text-amber-400 text-center">
+                      This track has no synced lyrics yet. Load audio, then tap along in the sync editor.
+                    </p>
+                  )}
+                  <button
+                    onClick={() => setView('editor')}
+                    disabled={!audioUrl}
+                    className="px-6 py-3 rounded-xl border border-white/10 text-white/60 font-mono text-sm tracking-widest uppercase hover:text-white hover:bg-white/10 transition-all disabled:opacity-30"
+                  >
+                    {hasTimedLyrics ? 'Adjust Timing' : 'Open Sync Editor'}
+                  </button>
                 </div>
 
                 <button
                   onClick={handleStartGame}
-                  disabled={!audioUrl}
+                  disabled={!audioUrl || !hasTimedLyrics}
                   className="w-full relative group overflow-hidden px-8 py-6 bg-white disabled:bg-white/10 text-deep-bg disabled:text-white/20 font-display font-black text-2xl tracking-widest rounded-xl hover:scale-[1.02] transition-all duration-300 disabled:hover:scale-100"
                 >
-                  <span className="relative z-10">{audioUrl ? 'START ENGINE' : 'AWAITING AUDIO SOURCE'}</span>
+                  <span className="relative z-10">{!audioUrl ? 'AWAITING AUDIO SOURCE' : hasTimedLyrics ? 'START ENGINE' : 'AWAITING LYRIC SYNC'}</span>
                   <div className="absolute inset-0 bg-gradient-to-r from-neon-blue via-white to-neon-purple opacity-0 group-hover:opacity-100 transition-opacity duration-300"></div>
                 </button>
               </div>
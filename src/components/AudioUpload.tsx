@@ -1,5 +1,6 @@
 import { useRef, useState, useCallback, useEffect } from 'react';
 import { useGameStore } from '../stores/gameStore';
+import { LYRIC_FILE_EXTENSIONS, isLyricFile, parseLyricsFile } from '../utils/subtitleParser';
 
 interface YouTubeResult {
     id: string;
@@ -23,9 +24,25 @@ export function AudioUpload() {
     const [youtubeResults, setYoutubeResults] = useState<YouTubeResult[]>([]);
     const [searchError, setSearchError] = useState<string | null>(null);
     const [selectedVideo, setSelectedVideo] = useState<YouTubeResult | null>(null);
+    const [lyricsFileName, setLyricsFileName] = useState<string | null>(null);
     const downloadPollRef = useRef<number | null>(null);
 
-    const { setAudioSource, audioSource, currentSong, youtubeInfo, setYoutubeInfo } = useGameStore();
+    const { setAudioSource, setLyrics, audioSource, currentSong, youtubeInfo, setYoutubeInfo } = useGameStore();
+
+    const handleLyricsFile = useCallback(async (file: File) => {
+        try {
+            const lyrics = parseLyricsFile(file.name, await file.text());
+            if (lyrics.lines.length === 0) {
+                throw new Error(`No timed lines found in ${file.name}`);
+            }
+            setLyrics(lyrics);
+            setLyricsFileName(file.name);
+            setSearchError(null);
+        } catch (error) {
+            console.error('Lyrics import error:', error);
+            setSearchError(error instanceof Error ? error.message : 'Failed to load lyrics file');
+        }
+    }, [setLyrics]);
 
     const handleFile = useCallback((file: File) => {
         const validTypes = ['audio/mpeg', 'audio/mp3', 'audio/wav', 'audio/ogg', 'audio/webm', 'audio/m4a', 'audio/aac'];
@@ -40,12 +57,21 @@ export function AudioUpload() {
         setSelectedVideo(null);
     }, [setAudioSource]);
 
+    const handleFiles = useCallback((files: FileList) => {
+        for (const file of Array.from(files)) {
+            if (isLyricFile(file.name)) {
+                handleLyricsFile(file);
+            } else {
+                handleFile(file);
+            }
+        }
+    }, [handleFile, handleLyricsFile]);
+
     const handleDrop = useCallback((e: React.DragEvent) => {
         e.preventDefault();
         setIsDragging(false);
-        const file = e.dataTransfer.files[0];
-        if (file) handleFile(file);
-    }, [handleFile]);
+        handleFiles(e.dataTransfer.files);
+    }, [handleFiles]);
 
     const handleDragOver = useCallback((e: React.DragEvent) => {
         e.preventDefault();
@@ -60,8 +86,7 @@ export function AudioUpload() {
     const handleClick = () => fileInputRef.current?.click();
 
     const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-        const file = e.target.files?.[0];
-        if (file) handleFile(file);
+        if (e.target.files) handleFiles(e.target.files);
     };
 
     useEffect(() => {
@@ -258,7 +283,8 @@ export function AudioUpload() {
             <input
                 ref={fileInputRef}
                 type="file"
-                accept="audio/*"
+                accept={['audio/*', ...LYRIC_FILE_EXTENSIONS].join(',')}
+                multiple
                 onChange={handleInputChange}
                 className="hidden"
             />
@@ -294,6 +320,11 @@ export function AudioUpload() {
                             <p className="text-sm text-slate-500 mt-1">Supports MP3, WAV, OGG, M4A, AAC</p>
                         </>
                     )}
+                    {lyricsFileName ? (
+                        <p className="text-xs text-neon-purple mt-2 font-mono">Lyrics: {lyricsFileName}</p>
+                    ) : (
+                        <p className="text-xs text-slate-500 mt-2">Drop an LRC, SRT, VTT or TTML file alongside to replace the lyrics</p>
+                    )}
                 </div>
             </div>
 
@@ -0,0 +1,30 @@
+import { formatTime } from '../utils/lrcParser';
+import type { InstrumentalBreak } from '../types';
+
+interface BreakCountdownProps {
+    currentBreak: InstrumentalBreak;
+    lyricTimeMs: number;
+    canSkip: boolean;
+    onSkip: () => void;
+}
+
+export function BreakCountdown({ currentBreak, lyricTimeMs, canSkip, onSkip }: BreakCountdownProps) {
+    return (
+        <div className="fixed top-36 left-1/2 -translate-x-1/2 z-30 animate-slide-up">
+            <div className="flex items-center gap-4 px-5 py-3 bg-neon-purple/10 border border-neon-purple/40 rounded-2xl font-mono">
+                <span className="text-xs text-white/60 tracking-widest">INSTRUMENTAL BREAK</span>
+                <span className="text-2xl font-bold text-neon-purple">
+                    {formatTime(Math.ceil(Math.max(0, currentBreak.endTime - lyricTimeMs) / 1000) * 1000)}
+                </span>
+                {canSkip && (
+                    <button
+                        onClick={onSkip}
+                        className="px-3 py-1 text-xs bg-white/5 border border-white/10 rounded text-white/60 hover:bg-white/10 hover:text-white transition-colors"
+                    >
+                        TAB · SKIP
+                    </button>
+                )}
+            </div>
+        </div>
+    );
+}
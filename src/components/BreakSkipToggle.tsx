@@ -0,0 +1,21 @@
+import { useGameStore } from '../stores/gameStore';
+
+export function BreakSkipToggle() {
+    const { breakSkipEnabled, setBreakSkipEnabled } = useGameStore();
+
+    return (
+        <div className="flex justify-between items-center text-sm font-mono text-white/60">
+            <span>SKIP INSTRUMENTAL BREAKS (TAB)</span>
+            <button
+                onClick={() => setBreakSkipEnabled(!breakSkipEnabled)}
+                className={`px-3 py-1 rounded-lg text-xs transition-all ${
+                    breakSkipEnabled
+                        ? 'bg-neon-blue/20 text-neon-blue border border-neon-blue/50'
+                        : 'bg-white/5 text-white/50 border border-white/10 hover:bg-white/10'
+                }`}
+            >
+                {breakSkipEnabled ? 'ON' : 'OFF'}
+            </button>
+        </div>
+    );
+}
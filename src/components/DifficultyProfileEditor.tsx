@@ -0,0 +1,93 @@
+import { useState } from 'react';
+import type { DifficultySettings } from '../types';
+import { clampDifficultySettings, DIFFICULTY_RULES, validateDifficultySettings, type DifficultyRule } from '../utils/difficulty';
+
+interface DifficultyProfileEditorProps {
+    initial: DifficultySettings;
+    onSave: (settings: DifficultySettings) => void;
+    onCancel: () => void;
+}
+
+const RULE_FIELDS: { rule: DifficultyRule; label: string; step: number }[] = [
+    { rule: 'perfectWindow', label: 'Perfect window (ms)', step: 10 },
+    { rule: 'goodWindow', label: 'Good window (ms)', step: 10 },
+    { rule: 'earlyPenalty', label: 'Early penalty', step: 0.05 },
+    { rule: 'latePenalty', label: 'Late penalty', step: 0.05 },
+    { rule: 'tooEarlyPenalty', label: 'Too early penalty', step: 0.05 },
+    { rule: 'tooLatePenalty', label: 'Too late penalty', step: 0.05 },
+    { rule: 'baseScoreMultiplier', label: 'Base score multiplier', step: 0.1 },
+    { rule: 'comboMultiplier', label: 'Combo multiplier', step: 0.05 },
+    { rule: 'perfectAccuracyThreshold', label: 'Perfect accuracy threshold', step: 0.01 },
+];
+
+export function DifficultyProfileEditor({ initial, onSave, onCancel }: DifficultyProfileEditorProps) {
+    const [draft, setDraft] = useState<DifficultySettings>(initial);
+    const [values, setValues] = useState(() => Object.fromEntries(
+        DIFFICULTY_RULES.map(rule => [rule, String(initial[rule])])
+    ) as Record<DifficultyRule, string>);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleSave = () => {
+        const settings = clampDifficultySettings({
+            ...draft,
+            ...Object.fromEntries(DIFFICULTY_RULES.map(rule => [rule, values[rule].trim() ? Number(values[rule]) : NaN])),
+        });
+        const validationError = validateDifficultySettings(settings);
+        if (validationError) {
+            setError(validationError);
+            return;
+        }
+        onSave({ ...settings, name: settings.name.trim(), description: settings.description.trim() });
+    };
+
+    return (
+        <div className="p-4 rounded-xl border border-white/10 bg-white/5 space-y-4">
+            <div className="grid grid-cols-1 gap-2">
+                <input
+                    value={draft.name}
+                    onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                    placeholder="Profile name"
+                    className="w-full px-3 py-2 bg-black/30 border border-white/10 rounded-lg text-sm text-white focus:outline-none focus:border-neon-blue"
+                />
+                <input
+                    value={draft.description}
+                    onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                    placeholder="Description"
+                    className="w-full px-3 py-2 bg-black/30 border border-white/10 rounded-lg text-sm text-white focus:outline-none focus:border-neon-blue"
+                />
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+                {RULE_FIELDS.map(({ rule, label, step }) => (
+                    <label key={rule} className="flex flex-col gap-1 text-xs font-mono text-white/50">
+                        {label}
+                        <input
+                            type="number"
+                            step={step}
+                            value={values[rule]}
+                            onChange={(e) => setValues({ ...values, [rule]: e.target.value })}
+                            className="px-3 py-2 bg-black/30 border border-white/10 rounded-lg text-sm text-white focus:outline-none focus:border-neon-blue"
+                        />
+                    </label>
+                ))}
+            </div>
+
+            {error && <p className="text-xs text-rose-400">{error}</p>}
+
+            <div className="flex justify-end gap-2">
+                <button
+                    onClick={onCancel}
+                    className="px-4 py-2 rounded-lg text-xs font-mono text-white/50 hover:text-white hover:bg-white/10 transition-colors"
+                >
+                    CANCEL
+                </button>
+                <button
+                    onClick={handleSave}
+                    className="px-4 py-2 rounded-lg text-xs font-mono font-bold bg-neon-blue text-deep-bg hover:bg-white transition-colors"
+                >
+                    SAVE PROFILE
+                </button>
+            </div>
+        </div>
+    );
+}
@@ -1,19 +1,78 @@
+import { useState } from 'react';
 import { useGameStore } from '../stores/gameStore';
-import { type Difficulty, DIFFICULTY_SETTINGS } from '../types';
+import { type Difficulty, type DifficultySettings } from '../types';
+import { deleteCustomDifficultyProfile, getCustomDifficultyProfiles } from '../utils/storage';
+import {
+    BUILT_IN_DIFFICULTIES,
+    decodeDifficultyProfile,
+    encodeDifficultyProfile,
+    findDifficultyProfileId,
+    getDifficultySettings,
+    isBuiltInDifficulty,
+    saveDifficultyProfile,
+} from '../utils/difficulty';
+import { DifficultyProfileEditor } from './DifficultyProfileEditor';
 
 export function DifficultySelector() {
-    const { difficulty, setDifficulty } = useGameStore();
+    const { difficulty, setDifficulty, reloadSettings } = useGameStore();
+    const [profiles, setProfiles] = useState(getCustomDifficultyProfiles);
+    const [editorMode, setEditorMode] = useState<'new' | 'edit' | null>(null);
+    const [importText, setImportText] = useState('');
+    const [message, setMessage] = useState<string | null>(null);
 
-    const difficulties: Difficulty[] = ['easy', 'medium', 'hard'];
+    const difficulties: Difficulty[] = [...BUILT_IN_DIFFICULTIES, ...Object.keys(profiles) as Difficulty[]];
+    const currentSettings = getDifficultySettings(difficulty);
+
+    const handleSave = (settings: DifficultySettings) => {
+        const id = saveDifficultyProfile(settings, editorMode === 'edit' ? difficulty : undefined);
+        setProfiles(getCustomDifficultyProfiles());
+        setDifficulty(id);
+        setEditorMode(null);
+        setMessage(null);
+    };
+
+    const handleImport = () => {
+        const settings = decodeDifficultyProfile(importText);
+        if (!settings) {
+            setMessage('That share string is not a valid difficulty profile.');
+            return;
+        }
+        const existingId = findDifficultyProfileId(settings);
+        if (existingId) {
+            setDifficulty(existingId);
+            setMessage('You already have a profile with these rules.');
+        } else {
+            setDifficulty(saveDifficultyProfile(settings));
+            setProfiles(getCustomDifficultyProfiles());
+            setMessage(null);
+        }
+        setImportText('');
+    };
+
+    const handleShare = async () => {
+        try {
+            await navigator.clipboard.writeText(encodeDifficultyProfile(currentSettings));
+            setMessage('Share string copied to clipboard.');
+        } catch {
+            setMessage(encodeDifficultyProfile(currentSettings));
+        }
+    };
+
+    const handleDelete = () => {
+        deleteCustomDifficultyProfile(difficulty);
+        setProfiles(getCustomDifficultyProfiles());
+        reloadSettings();
+        setMessage(null);
+    };
 
     return (
         <div className="flex flex-col gap-3">
             <label className="text-sm text-slate-400 uppercase tracking-wider">
                 Difficulty
             </label>
-            <div className="flex gap-2">
+            <div className="flex flex-wrap gap-2">
                 {difficulties.map((diff) => {
-                    const settings = DIFFICULTY_SETTINGS[diff];
+                    const settings = getDifficultySettings(diff);
                     const isSelected = difficulty === diff;
 
                     return (
@@ -23,7 +82,7 @@ export function DifficultySelector() {
                             className={`
                 flex-1 px-4 py-3 rounded-xl transition-all duration-300
                 ${isSelected
-                                    ? `difficulty-${diff} text-white shadow-lg scale-105`
+                                    ? `difficulty-${isBuiltInDifficulty(diff) ? diff : 'custom'} text-white shadow-lg scale-105`
                                     : 'glass glass-hover text-slate-300'
                                 }
               `}
@@ -39,8 +98,67 @@ export function DifficultySelector() {
 
 
             <p className="text-sm text-slate-500 text-center">
-                {DIFFICULTY_SETTINGS[difficulty].description}
+                {currentSettings.description}
             </p>
+
+
+            <div className="flex flex-wrap justify-center gap-2 text-xs font-mono">
+                <button
+                    onClick={() => setEditorMode(editorMode ? null : 'new')}
+                    className="px-3 py-1 rounded-lg text-white/50 border border-white/10 hover:bg-white/10 hover:text-white transition-colors"
+                >
+                    {editorMode ? 'CLOSE EDITOR' : 'NEW PROFILE'}
+                </button>
+                {!editorMode && !isBuiltInDifficulty(difficulty) && (
+                    <button
+                        onClick={() => setEditorMode('edit')}
+                        className="px-3 py-1 rounded-lg text-white/50 border border-white/10 hover:bg-white/10 hover:text-white transition-colors"
+                    >
+                        EDIT
+                    </button>
+                )}
+                <button
+                    onClick={handleShare}
+                    className="px-3 py-1 rounded-lg text-white/50 border border-white/10 hover:bg-white/10 hover:text-white transition-colors"
+                >
+                    SHARE
+                </button>
+                {!isBuiltInDifficulty(difficulty) && (
+                    <button
+                        onClick={handleDelete}
+                        className="px-3 py-1 rounded-lg text-rose-400/70 border border-rose-500/30 hover:bg-rose-500/10 hover:text-rose-300 transition-colors"
+                    >
+                        DELETE
+                    </button>
+                )}
+            </div>
+
+            {editorMode && (
+                <DifficultyProfileEditor
+                    key={editorMode}
+                    initial={editorMode === 'edit' ? currentSettings : { ...currentSettings, name: `${currentSettings.name} Custom` }}
+                    onSave={handleSave}
+                    onCancel={() => setEditorMode(null)}
+                />
+            )}
+
+            <div className="flex gap-2">
+                <input
+                    value={importText}
+                    onChange={(e) => setImportText(e.target.value)}
+                    placeholder="Paste a profile share string"
+                    className="flex-1 px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-xs font-mono text-white focus:outline-none focus:border-neon-blue"
+                />
+                <button
+                    onClick={handleImport}
+                    disabled={!importText.trim()}
+                    className="px-3 py-2 rounded-lg text-xs font-mono text-white/50 border border-white/10 hover:bg-white/10 hover:text-white transition-colors disabled:opacity-40"
+                >
+                    IMPORT
+                </button>
+            </div>
+
+            {message && <p className="text-xs font-mono text-white/50 text-center break-all">{message}</p>}
         </div>
     );
 }
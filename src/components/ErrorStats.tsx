@@ -0,0 +1,152 @@
+import { useMemo, useState } from 'react';
+import { getAllErrorStats } from '../utils/storage';
+import { KEYBOARD_ROWS, getMissRate, getWorstBigrams, summarizeErrorStats } from '../utils/errorAnalytics';
+import { BUILT_IN_DIFFICULTIES, getDifficultySettings, isBuiltInDifficulty } from '../utils/difficulty';
+import type { Difficulty, ErrorCounts } from '../types';
+
+interface ErrorStatsProps {
+    onClose: () => void;
+}
+
+function getHeatClass(counts: ErrorCounts | undefined): string {
+    if (!counts || counts.attempts === 0) return 'bg-white/5 text-white/20 border-white/5';
+    const rate = getMissRate(counts);
+    if (rate >= 0.2) return 'bg-neon-pink/60 text-white border-neon-pink';
+    if (rate >= 0.1) return 'bg-neon-pink/30 text-white border-neon-pink/50';
+    if (rate >= 0.05) return 'bg-neon-purple/30 text-white border-neon-purple/50';
+    if (rate > 0) return 'bg-neon-blue/20 text-white border-neon-blue/30';
+    return 'bg-neon-green/10 text-white/80 border-neon-green/20';
+}
+
+export function ErrorStats({ onClose }: ErrorStatsProps) {
+    const [entries] = useState(getAllErrorStats);
+    const [songId, setSongId] = useState<string | undefined>(undefined);
+    const [difficulty, setDifficulty] = useState<Difficulty | undefined>(undefined);
+
+    const songs = useMemo(() => {
+        const unique = new Map<string, string>();
+        for (const entry of entries) {
+            unique.set(entry.songId, `${entry.trackName} - ${entry.artistName}`);
+        }
+        return [...unique.entries()].sort((a, b) => a[1].localeCompare(b[1]));
+    }, [entries]);
+
+    const difficulties = useMemo(() => {
+        const custom = entries.map(e => e.difficulty).filter(d => !isBuiltInDifficulty(d));
+        return [...BUILT_IN_DIFFICULTIES, ...new Set(custom)];
+    }, [entries]);
+
+    const summary = useMemo(
+        () => summarizeErrorStats(entries, { songId, difficulty }),
+        [entries, songId, difficulty]
+    );
+    const worstBigrams = useMemo(() => getWorstBigrams(summary.bigrams), [summary]);
+
+    return (
+        <div className="w-full min-h-screen flex flex-col p-4 md:p-8 max-w-5xl mx-auto">
+            <div className="flex justify-between items-center mb-8">
+                <button
+                    onClick={onClose}
+                    className="flex items-center gap-2 text-white/40 hover:text-white transition-colors font-mono text-sm tracking-widest uppercase"
+                >
+                    ← Back to Search
+                </button>
+                <div className="text-right">
+                    <div className="font-display font-bold text-2xl text-white">ERROR <span className="text-neon-pink">HEATMAP</span></div>
+                    <div className="font-mono text-xs text-neon-blue uppercase tracking-widest">{summary.runs} runs analysed</div>
+                </div>
+            </div>
+
+            <div className="bg-deep-surface border border-white/10 rounded-3xl p-6 space-y-8">
+                <div className="flex flex-wrap items-center gap-3">
+                    <select
+                        value={songId ?? ''}
+                        onChange={e => setSongId(e.target.value || undefined)}
+                        className="px-4 py-2 bg-white/5 border border-white/10 rounded-xl text-white font-mono text-sm focus:outline-none focus:border-neon-blue"
+                    >
+                        <option value="" className="bg-deep-bg">ALL SONGS</option>
+                        {songs.map(([id, label]) => (
+                            <option key={id} value={id} className="bg-deep-bg">{label}</option>
+                        ))}
+                    </select>
+
+                    <div className="flex gap-2">
+                        {[undefined, ...difficulties].map(d => (
+                            <button
+                                key={d ?? 'all'}
+                                onClick={() => setDifficulty(d)}
+                                className={`px-4 py-2 rounded-xl font-mono text-xs uppercase tracking-widest transition-all ${difficulty === d
+                                    ? 'bg-neon-blue text-deep-bg font-bold'
+                                    : 'bg-white/5 text-white/50 hover:bg-white/10 hover:text-white'
+                                    }`}
+                            >
+                                {d ? getDifficultySettings(d).name : 'all'}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+
+                {summary.runs === 0 ? (
+                    <div className="text-center text-white/20 font-mono py-12">
+                        NO ERROR DATA RECORDED
+                    </div>
+                ) : (
+                    <>
+                        <div className="space-y-2">
+                            <h3 className="font-mono text-xs text-white/40 uppercase tracking-widest mb-4">Miss rate by key</h3>
+                            {KEYBOARD_ROWS.map((row, rowIndex) => (
+                                <div key={rowIndex} className="flex justify-center gap-2" style={{ paddingLeft: `${rowIndex * 1.25}rem` }}>
+                                    {row.map(key => {
+                                        const counts = summary.characters[key];
+                                        return (
+                                            <div
+                                                key={key}
+                                                title={counts ? `${counts.misses}/${counts.attempts} missed` : 'Not typed yet'}
+                                                className={`w-10 h-10 md:w-12 md:h-12 rounded-lg border flex flex-col items-center justify-center font-mono ${getHeatClass(counts)}`}
+                                            >
+                                                <span className="text-sm font-bold uppercase">{key}</span>
+                                                {counts && counts.attempts > 0 && (
+                                                    <span className="text-[9px] opacity-70">{Math.round(getMissRate(counts) * 100)}%</span>
+                                                )}
+                                            </div>
+                                        );
+                                    })}
+                                </div>
+                            ))}
+                        </div>
+
+                        <div>
+                            <h3 className="font-mono text-xs text-white/40 uppercase tracking-widest mb-4">Worst bigrams</h3>
+                            {worstBigrams.length === 0 ? (
+                                <div className="text-center text-white/20 font-mono py-4">
+                                    NO PROBLEM BIGRAMS YET
+                                </div>
+                            ) : (
+                                <table className="w-full font-mono text-sm">
+                                    <thead>
+                                        <tr className="text-white/40 text-xs uppercase tracking-widest text-left">
+                                            <th className="py-2">Bigram</th>
+                                            <th className="py-2 text-right">Missed</th>
+                                            <th className="py-2 text-right">Typed</th>
+                                            <th className="py-2 text-right">Miss rate</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {worstBigrams.map(([bigram, counts]) => (
+                                            <tr key={bigram} className="border-t border-white/5">
+                                                <td className="py-2 text-white font-bold">{bigram}</td>
+                                                <td className="py-2 text-right text-neon-pink">{counts.misses}</td>
+                                                <td className="py-2 text-right text-white/60">{counts.attempts}</td>
+                                                <td className="py-2 text-right text-white">{Math.round(getMissRate(counts) * 100)}%</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            )}
+                        </div>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+}
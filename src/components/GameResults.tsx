@@ -1,43 +1,45 @@
 import { useEffect, useState } from 'react';
 import { useGameStore } from '../stores/gameStore';
-import { calculateGameStats } from '../utils/scoring';
+import { calculateGameStats, getTimingClass, getTimingLabel } from '../utils/scoring';
 import { isHighScore } from '../utils/storage';
-import { DIFFICULTY_SETTINGS } from '../types';
+import { calculateTypingStats } from '../utils/typingStats';
+import { getDifficultySettings } from '../utils/difficulty';
+import { GRADE_STYLES, getGrade } from '../utils/progress';
+import type { WordDiff } from '../types';
 
 interface GameResultsProps {
     durationMs: number;
     onPlayAgain: () => void;
     onBackToSearch: () => void;
+    onWatchReplay?: () => void;
+    onPractice?: () => void;
 }
 
-export function GameResults({ durationMs, onPlayAgain, onBackToSearch }: GameResultsProps) {
-    const { currentSong, difficulty, lineResults } = useGameStore();
+export function GameResults({ durationMs, onPlayAgain, onBackToSearch, onWatchReplay, onPractice }: GameResultsProps) {
+    const { currentSong, difficulty, lineResults, lyrics, runLog, runSaveFailed } = useGameStore();
     const [showGrade, setShowGrade] = useState(false);
+    const [isNewHighScore, setIsNewHighScore] = useState(false);
 
     useEffect(() => {
         const timer = setTimeout(() => setShowGrade(true), 500);
         return () => clearTimeout(timer);
     }, []);
 
-    const stats = calculateGameStats(lineResults, durationMs);
-    const settings = DIFFICULTY_SETTINGS[difficulty];
+    const settings = getDifficultySettings(difficulty);
+    const stats = calculateGameStats(lineResults, durationMs, settings);
 
-    const isNewHighScore = currentSong && isHighScore(
-        currentSong.id.toString(),
-        difficulty,
-        stats.totalScore
-    );
-
-    const getGrade = (accuracy: number) => {
-        if (accuracy >= 0.95) return { grade: 'S', color: 'text-neon-purple', shadow: 'shadow-neon-purple' };
-        if (accuracy >= 0.90) return { grade: 'A', color: 'text-neon-green', shadow: 'shadow-neon-green' };
-        if (accuracy >= 0.80) return { grade: 'B', color: 'text-neon-blue', shadow: 'shadow-neon-blue' };
-        if (accuracy >= 0.70) return { grade: 'C', color: 'text-yellow-400', shadow: 'shadow-yellow-400' };
-        if (accuracy >= 0.60) return { grade: 'D', color: 'text-orange-400', shadow: 'shadow-orange-400' };
-        return { grade: 'F', color: 'text-rose-500', shadow: 'shadow-rose-500' };
-    };
-
-    const gradeInfo = getGrade(stats.accuracy);
+    useEffect(() => {
+        if (!currentSong) return;
+        isHighScore(currentSong.id.toString(), difficulty, stats.totalScore)
+            .then(setIsNewHighScore)
+            .catch(error => console.error('High score lookup error:', error));
+    }, [currentSong, difficulty, stats.totalScore]);
+
+    const grade = getGrade(stats.accuracy);
+    const gradeInfo = { grade, ...GRADE_STYLES[grade] };
+    const sortedResults = [...lineResults].sort((a, b) => a.lineIndex - b.lineIndex);
+    const typingStats = runLog && lyrics ? calculateTypingStats(runLog, lyrics) : null;
+    const maxLineWpm = typingStats ? Math.max(1, ...typingStats.lineWpm.map(l => l.wpm)) : 1;
 
     return (
         <div className="w-full max-w-4xl mx-auto text-center animate-slide-up">
@@ -50,6 +52,11 @@ export function GameResults({ durationMs, onPlayAgain, onBackToSearch }: GameRes
                     {currentSong?.trackName}
                     {currentSong?.artistName ? ` // ${currentSong.artistName}` : ''}
                 </p>
+                {runSaveFailed && (
+                    <p className="mt-6 mx-auto max-w-lg p-4 bg-amber-500/10 border border-amber-500/40 rounded-2xl text-sm text-amber-200">
+                        This run could not be saved to your history. Your score is shown below but will not appear in rankings or progress.
+                    </p>
+                )}
             </div>
 
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-12 items-center mb-16">
@@ -90,6 +97,77 @@ export function GameResults({ durationMs, onPlayAgain, onBackToSearch }: GameRes
             </div>
 
 
+            {typingStats && (
+                <div className="mb-16">
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+                        <StatCard label="RAW WPM" value={typingStats.rawWpm.toString()} delay={500} />
+                        <StatCard label="NET WPM" value={typingStats.netWpm.toString()} delay={600} />
+                        <StatCard label="CONSISTENCY" value={`${typingStats.consistency}%`} delay={700} />
+                        <StatCard
+                            label="ERRORS UNCORR / CORR"
+                            value={`${typingStats.uncorrectedErrors} / ${typingStats.correctedErrors}`}
+                            delay={800}
+                        />
+                    </div>
+
+                    {typingStats.lineWpm.length > 1 && (
+                        <div className="p-6 bg-white/5 rounded-2xl border border-white/5 text-left">
+                            <div className="flex justify-between font-mono text-xs text-white/40 mb-4">
+                                <span>WPM PER LINE</span>
+                                <span>{(typingStats.errorRate * 100).toFixed(1)}% ERROR RATE</span>
+                            </div>
+                            <div className="flex items-end gap-[2px] h-24">
+                                {typingStats.lineWpm.map(({ lineIndex, wpm }) => (
+                                    <div
+                                        key={lineIndex}
+                                        title={`Line ${lineIndex + 1}: ${wpm} WPM`}
+                                        className="flex-1 bg-neon-blue/40 hover:bg-neon-blue rounded-t transition-colors"
+                                        style={{ height: `${(wpm / maxLineWpm) * 100}%` }}
+                                    />
+                                ))}
+                            </div>
+                        </div>
+                    )}
+                </div>
+            )}
+
+
+            {sortedResults.length > 0 && (
+                <div className="mb-16 text-left">
+                    <div className="flex justify-between items-center mb-4">
+                        <div className="text-white/40 font-mono tracking-widest text-sm">LINE BREAKDOWN</div>
+                        <div className="flex gap-4 font-mono text-xs text-white/40">
+                            <span className="text-white/80">CORRECT</span>
+                            <span className="text-amber-400">MISSPELLED</span>
+                            <span className="text-rose-500 underline decoration-dotted">MISSING</span>
+                            <span className="text-rose-500/60 line-through">EXTRA</span>
+                        </div>
+                    </div>
+                    <div className="max-h-96 overflow-y-auto space-y-2 pr-2">
+                        {sortedResults.map(result => (
+                            <div key={result.lineIndex} className="flex items-start gap-4 p-4 bg-white/5 rounded-xl border border-white/5">
+                                <div className="font-mono text-xs text-white/30 w-8 pt-1">{result.lineIndex + 1}</div>
+                                <div className="flex-1 flex flex-wrap gap-x-2 gap-y-1 text-lg">
+                                    {(result.wordDiff ?? []).map((word, i) => (
+                                        <WordDiffToken key={i} word={word} />
+                                    ))}
+                                    {(result.wordDiff ?? []).length === 0 && (
+                                        <span className="text-white/40">{result.expectedText}</span>
+                                    )}
+                                </div>
+                                <div className="text-right shrink-0">
+                                    <div className={`font-mono text-xs font-bold ${getTimingClass(result.timingResult)}`}>
+                                        {getTimingLabel(result.timingResult)}
+                                    </div>
+                                    <div className="font-mono text-sm text-white/60">{result.score.toLocaleString()}</div>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+
             <div className="flex justify-center gap-6">
                 <button
                     onClick={onPlayAgain}
@@ -97,6 +175,22 @@ export function GameResults({ durationMs, onPlayAgain, onBackToSearch }: GameRes
                 >
                     <span className="relative z-10">REPLAY TRACK</span>
                 </button>
+                {onWatchReplay && (
+                    <button
+                        onClick={onWatchReplay}
+                        className="px-8 py-4 bg-transparent border-2 border-neon-purple/50 text-neon-purple font-display font-bold text-xl tracking-widest hover:border-neon-purple hover:bg-neon-purple/10 transition-all duration-300"
+                    >
+                        WATCH REPLAY
+                    </button>
+                )}
+                {onPractice && (
+                    <button
+                        onClick={onPractice}
+                        className="px-8 py-4 bg-transparent border-2 border-neon-green/50 text-neon-green font-display font-bold text-xl tracking-widest hover:border-neon-green hover:bg-neon-green/10 transition-all duration-300"
+                    >
+                        PRACTICE WEAK LINES
+                    </button>
+                )}
                 <button
                     onClick={onBackToSearch}
                     className="px-8 py-4 bg-transparent border-2 border-white/20 text-white font-display font-bold text-xl tracking-widest hover:border-white hover:bg-white/5 transition-all duration-300"
@@ -119,3 +213,21 @@ function StatCard({ label, value, delay }: { label: string, value: string, delay
         </div>
     );
 }
+
+function WordDiffToken({ word }: { word: WordDiff }) {
+    switch (word.status) {
+        case 'correct':
+            return <span className="text-white/80">{word.expected}</span>;
+        case 'misspelled':
+            return (
+                <span className="text-amber-400" title={`Typed "${word.typed}"`}>
+                    {word.expected}
+                    <span className="ml-1 text-xs text-white/30 line-through">{word.typed}</span>
+                </span>
+            );
+        case 'missing':
+            return <span className="text-rose-500 underline decoration-dotted underline-offset-4">{word.expected}</span>;
+        case 'extra':
+            return <span className="text-rose-500/60 line-through">{word.typed}</span>;
+    }
+}
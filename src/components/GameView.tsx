@@ -1,23 +1,46 @@
-import { useEffect, useRef, useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import { useGameStore } from '../stores/gameStore';
 import { useGameEngine } from '../hooks/useGameEngine';
+import { useReplay } from '../hooks/useReplay';
+import { useGhost } from '../hooks/useGhost';
+import { usePractice } from '../hooks/usePractice';
 import { LyricDisplay } from './LyricDisplay';
 import { TypingInput } from './TypingInput';
 import { ScoreBoard } from './ScoreBoard';
-import { ProgressBar } from './ProgressBar';
 import { GameResults } from './GameResults';
+import { GhostTrack } from './GhostTrack';
+import { PreRollSlider } from './PreRollSlider';
+import { GhostRaceToggle } from './GhostRaceToggle';
+import { BreakSkipToggle } from './BreakSkipToggle';
+import { BreakCountdown } from './BreakCountdown';
+import { LoopSelector } from './LoopSelector';
+import { LoopTimeline } from './LoopTimeline';
+import { LyricCheck } from './LyricCheck';
+import { ScriptModeSelector } from './ScriptModeSelector';
+import { VoicePartSelector } from './VoicePartSelector';
+import { ReplayPlayer } from './ReplayPlayer';
+import { PracticeView } from './PracticeView';
+import { findDifficultySettings } from '../utils/difficulty';
 
 interface GameViewProps {
     onBackToSearch: () => void;
 }
 
 export function GameView({ onBackToSearch }: GameViewProps) {
-    const { status, currentSong, lyrics, audioUrl, resetGame, lyricsOffset, setLyricsOffset, typingMode, setTypingMode, showAutoSubmitNotification, setShowAutoSubmitNotification } = useGameStore();
-    const { audio, handleTyping, handleInputKey, handleSubmitLine, startPlaying, pauseGame, resumeGame } = useGameEngine();
+    const { status, currentSong, lyrics, audioUrl, youtubeInfo, resetGame, lyricsOffset, setLyricsOffset, typingMode, setTypingMode, difficulty, showAutoSubmitNotification, setShowAutoSubmitNotification } = useGameStore();
+    const { audio, handleTyping, handleInputKey, handleSubmitLine, startPlaying, pauseGame, resumeGame, currentBreak, canSkipBreak, skipBreak } = useGameEngine();
+    const replay = useReplay(audio);
+    const ghost = useGhost(audio.currentTime);
+    const practiceMode = usePractice(audio);
+    const { exitReplay } = replay;
+    const { exitPractice } = practiceMode;
     const [countdown, setCountdown] = useState<number | null>(null);
     const [showSettings, setShowSettings] = useState(false);
     const countdownStartRef = useRef<number | null>(null);
 
+    const audioDurationMs = audio.duration || (youtubeInfo?.videoDuration ?? currentSong?.duration ?? 0) * 1000;
+    const hasDifficulty = useMemo(() => findDifficultySettings(difficulty) !== null, [difficulty]);
+
     useEffect(() => {
         if (status !== 'countdown') {
             countdownStartRef.current = null;
@@ -54,6 +77,10 @@ export function GameView({ onBackToSearch }: GameViewProps) {
                     pauseGame();
                 } else if (status === 'paused') {
                     resumeGame();
+                } else if (status === 'replaying') {
+                    exitReplay();
+                } else if (status === 'practicing') {
+                    exitPractice();
                 }
             }
             if (e.key === ' ' && status === 'paused') {
@@ -63,12 +90,12 @@ export function GameView({ onBackToSearch }: GameViewProps) {
         };
         window.addEventListener('keydown', handleKeydown);
         return () => window.removeEventListener('keydown', handleKeydown);
-    }, [status, pauseGame, resumeGame]);
+    }, [status, pauseGame, resumeGame, exitReplay, exitPractice]);
 
     const handlePlayAgain = () => {
         useGameStore.setState({
             status: 'idle', currentLineIndex: -1, typedText: '', score: 0, combo: 0,
-            maxCombo: 0, lineResults: [], startTime: null, currentTime: 0
+            maxCombo: 0, lineResults: [], startTime: null, currentTime: 0, runLog: null
         });
     };
 
@@ -82,7 +109,13 @@ export function GameView({ onBackToSearch }: GameViewProps) {
 
     if (status === 'finished') {
         return (
-            <GameResults durationMs={audio.duration} onPlayAgain={handlePlayAgain} onBackToSearch={handleBackToSearch} />
+            <GameResults
+                durationMs={audio.duration}
+                onPlayAgain={handlePlayAgain}
+                onBackToSearch={handleBackToSearch}
+                onWatchReplay={replay.canReplay ? replay.startReplay : undefined}
+                onPractice={practiceMode.canPractice ? practiceMode.startPractice : undefined}
+            />
         );
     }
 
@@ -106,9 +139,9 @@ export function GameView({ onBackToSearch }: GameViewProps) {
                 </button>
 
 
-                {(status === 'playing' || status === 'paused') && (
+                {(status === 'playing' || status === 'paused' || status === 'replaying') && (
                     <div className="absolute top-4 left-1/2 -translate-x-1/2 w-full max-w-5xl">
-                        <ScoreBoard />
+                        <ScoreBoard ghostScoreDelta={status === 'replaying' ? null : ghost?.scoreDelta ?? null} />
                     </div>
                 )}
 
@@ -238,12 +271,17 @@ export function GameView({ onBackToSearch }: GameViewProps) {
                                 />
                                 <div className="flex justify-between text-xs text-white/30 mt-1">
                                     <span>Earlier</span>
-                                    <button onClick={() => setLyricsOffset(0)} className="text-white/50 hover:text-white">Reset</button>
+                                    <button onClick={() => setLyricsOffset(lyrics.metadata.offset ?? 0)} className="text-white/50 hover:text-white">
+                                        {lyrics.metadata.offset ? `Reset to file (${lyrics.metadata.offset > 0 ? '+' : ''}${lyrics.metadata.offset}ms)` : 'Reset'}
+                                    </button>
                                     <span>Later</span>
                                 </div>
                             </div>
 
 
+                            <PreRollSlider />
+
+
                             <div>
                                 <label className="block text-sm font-mono text-white/60 mb-3">TYPING MODE</label>
                                 <div className="grid grid-cols-3 gap-2">
@@ -284,10 +322,31 @@ export function GameView({ onBackToSearch }: GameViewProps) {
                                     {typingMode === 'assist' && 'Auto-skip punctuation'}
                                 </p>
                             </div>
+
+
+                            <BreakSkipToggle />
+
+
+                            <GhostRaceToggle />
+
+
+                            <LoopSelector />
+
+
+                            <ScriptModeSelector />
+
+
+                            <VoicePartSelector />
                         </div>
 
+                        <LyricCheck audioDurationMs={audioDurationMs} />
+
                         <div className="pt-4">
-                            {audioUrl ? (
+                            {audioUrl && !hasDifficulty ? (
+                                <div className="p-4 border border-rose-500/30 bg-rose-500/10 text-rose-300 rounded font-mono text-sm">
+                                    ⚠ DIFFICULTY PROFILE MISSING — PICK ANOTHER DIFFICULTY
+                                </div>
+                            ) : audioUrl ? (
                                 <button
                                     onClick={startPlaying}
                                     disabled={audio.isLoading}
@@ -316,8 +375,17 @@ export function GameView({ onBackToSearch }: GameViewProps) {
                             </div>
                         )}
 
+                        {currentBreak && (
+                            <BreakCountdown
+                                currentBreak={currentBreak}
+                                lyricTimeMs={audio.currentTime + lyricsOffset}
+                                canSkip={canSkipBreak}
+                                onSkip={skipBreak}
+                            />
+                        )}
+
                         <div className="flex-1 flex items-center">
-                            <LyricDisplay className="w-full" />
+                            <LyricDisplay className="w-full" getAudioTime={audio.getCurrentTime} />
                         </div>
 
                         <div className="w-full space-y-8">
@@ -327,9 +395,8 @@ export function GameView({ onBackToSearch }: GameViewProps) {
                                 onSubmit={handleSubmitLine}
                                 disabled={status !== 'playing'}
                             />
-                            <div className="max-w-3xl mx-auto w-full px-8">
-                                <ProgressBar currentTimeMs={audio.currentTime} durationMs={audio.duration} />
-                            </div>
+                            {ghost && <GhostTrack ghost={ghost} />}
+                            <LoopTimeline audio={audio} />
                         </div>
 
 
@@ -367,9 +434,10 @@ export function GameView({ onBackToSearch }: GameViewProps) {
                                     <input
                                         type="range" min="-2000" max="2000" step="50"
                                         value={lyricsOffset}
-                                        onChange={(e) => setLyricsOffset(parseInt(e.target.value))}
-                                        className="w-full h-1 bg-white/10 rounded-lg appearance-none cursor-pointer accent-neon-purple"
+                                        disabled
+                                        className="w-full h-1 bg-white/10 rounded-lg appearance-none cursor-not-allowed opacity-50 accent-neon-purple"
                                     />
+                                    <div className="text-[10px] font-mono text-white/30 mt-1">Locked during a run</div>
                                 </div>
                             </div>
                         )}
@@ -383,6 +451,12 @@ export function GameView({ onBackToSearch }: GameViewProps) {
                         </button>
                     </div>
                 )}
+
+
+                {status === 'replaying' && <ReplayPlayer audio={audio} replay={replay} />}
+
+
+                {status === 'practicing' && <PracticeView audio={audio} practiceMode={practiceMode} />}
             </div>
         </div>
     );
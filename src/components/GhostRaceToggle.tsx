@@ -0,0 +1,28 @@
+import { useGameStore } from '../stores/gameStore';
+import { getBestRun } from '../utils/storage';
+
+export function GhostRaceToggle() {
+    const { currentSong, difficulty, typingMode, ghostEnabled, setGhostEnabled } = useGameStore();
+    const bestRun = currentSong ? getBestRun(currentSong.id.toString(), difficulty, typingMode) : null;
+
+    if (!bestRun) return null;
+
+    return (
+        <div className="flex justify-between items-center text-sm font-mono text-white/60">
+            <span>
+                GHOST RACE
+                <span className="ml-2 text-xs text-neon-purple/70">PB {(bestRun.finalScore ?? 0).toLocaleString()}</span>
+            </span>
+            <button
+                onClick={() => setGhostEnabled(!ghostEnabled)}
+                className={`px-3 py-1 rounded-lg text-xs transition-all ${
+                    ghostEnabled
+                        ? 'bg-neon-purple/20 text-neon-purple border border-neon-purple/50'
+                        : 'bg-white/5 text-white/50 border border-white/10 hover:bg-white/10'
+                }`}
+            >
+                {ghostEnabled ? 'ON' : 'OFF'}
+            </button>
+        </div>
+    );
+}
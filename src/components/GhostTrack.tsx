@@ -0,0 +1,42 @@
+import { useGameStore } from '../stores/gameStore';
+import { toTypingText } from '../utils/normalization';
+import type { GhostState } from '../hooks/useGhost';
+
+interface GhostTrackProps {
+    ghost: GhostState;
+}
+
+export function GhostTrack({ ghost }: GhostTrackProps) {
+    const { lyrics, currentLineIndex, typedText, isLineCompleted, scriptMode } = useGameStore();
+    const line = lyrics?.lines[currentLineIndex];
+    if (!line) return null;
+
+    const liveLength = toTypingText(line.text, scriptMode === 'romanized').length || 1;
+    const ghostLength = toTypingText(line.text, ghost.romanized).length || 1;
+    const livePercent = isLineCompleted ? 100 : Math.min(100, (typedText.length / liveLength) * 100);
+    const ghostPercent = ghost.isLineCompleted ? 100 : Math.min(100, (ghost.typedText.length / ghostLength) * 100);
+
+    return (
+        <div className="max-w-4xl mx-auto w-full px-8">
+            <div className="flex items-center gap-3 font-mono text-xs">
+                <span className="text-neon-purple/70 tracking-widest w-10">PB</span>
+                <div className="relative flex-1 h-1.5 bg-white/5 rounded-full overflow-hidden">
+                    <div
+                        className="absolute inset-y-0 left-0 bg-neon-purple/40 transition-all duration-150 ease-linear"
+                        style={{ width: `${ghostPercent}%` }}
+                    />
+                    <div
+                        className="absolute top-0 left-0 h-1/2 bg-neon-blue/70 transition-all duration-100 ease-linear"
+                        style={{ width: `${livePercent}%` }}
+                    />
+                </div>
+                <span className={`w-20 text-right ${livePercent >= ghostPercent ? 'text-neon-green' : 'text-neon-purple'}`}>
+                    {livePercent >= ghostPercent ? 'AHEAD' : 'BEHIND'}
+                </span>
+            </div>
+            <div className="mt-1 ml-[3.25rem] font-mono text-sm text-neon-purple/40 truncate whitespace-pre">
+                {ghost.isLineCompleted ? '✓ done' : ghost.typedText || ' '}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,43 @@
+import { useEffect, useState } from 'react';
+import { getHouseholdLeaderboard } from '../utils/storage';
+import { getActiveProfileId } from '../utils/profiles';
+import { getDifficultySettings } from '../utils/difficulty';
+import type { HouseholdScore } from '../types';
+
+interface HouseholdLeaderboardProps {
+    songId: string;
+}
+
+export function HouseholdLeaderboard({ songId }: HouseholdLeaderboardProps) {
+    const [scores, setScores] = useState<HouseholdScore[]>([]);
+    const activeId = getActiveProfileId();
+
+    useEffect(() => {
+        getHouseholdLeaderboard(songId)
+            .then(setScores)
+            .catch(error => console.error('Household leaderboard error:', error));
+    }, [songId]);
+
+    return (
+        <div className="space-y-2">
+            {scores.length === 0 ? (
+                <div className="text-center text-white/20 font-mono text-sm py-4">
+                    NOBODY HAS PLAYED THIS SONG YET
+                </div>
+            ) : (
+                scores.map((score, index) => (
+                    <div
+                        key={`${score.profileId}-${score.difficulty}`}
+                        className={`flex items-center gap-4 px-4 py-3 rounded-xl border font-mono text-sm ${score.profileId === activeId ? 'bg-neon-purple/10 border-neon-purple/30' : 'bg-white/5 border-white/5'}`}
+                    >
+                        <span className={`font-display font-bold text-xl w-8 ${index === 0 ? 'text-amber-400' : 'text-white/20'}`}>#{index + 1}</span>
+                        <span className="flex-1 text-white font-bold truncate">{score.profileName}</span>
+                        <span className="text-white/40 text-xs uppercase">{getDifficultySettings(score.difficulty).name}</span>
+                        <span className="text-white/60 w-16 text-right">{(score.accuracy * 100).toFixed(1)}%</span>
+                        <span className="text-neon-blue w-24 text-right">{score.score.toLocaleString()}</span>
+                    </div>
+                ))
+            )}
+        </div>
+    );
+}
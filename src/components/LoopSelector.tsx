@@ -0,0 +1,60 @@
+import { useGameStore } from '../stores/gameStore';
+import { LOOP_RAMP_MAX_RATE, LOOP_RAMP_TARGET_ACCURACY, normalizeLoopRange } from '../utils/loop';
+
+export function LoopSelector() {
+    const { lyrics, loopRange, setLoopRange, loopRampEnabled, setLoopRampEnabled } = useGameStore();
+
+    if (!lyrics) return null;
+
+    return (
+        <div>
+            <label className="flex justify-between text-sm font-mono text-white/60 mb-3">
+                <span>A-B LOOP</span>
+                {loopRange ? (
+                    <button onClick={() => setLoopRange(null)} className="text-xs text-white/40 hover:text-white">CLEAR</button>
+                ) : (
+                    <span className="text-white/40">OFF</span>
+                )}
+            </label>
+            <div className="grid grid-cols-2 gap-2">
+                {(['startLineIndex', 'endLineIndex'] as const).map(key => (
+                    <select
+                        key={key}
+                        value={loopRange?.[key] ?? ''}
+                        onChange={(e) => {
+                            const lineIndex = parseInt(e.target.value);
+                            if (Number.isNaN(lineIndex)) return;
+                            const other = loopRange
+                                ? loopRange[key === 'startLineIndex' ? 'endLineIndex' : 'startLineIndex']
+                                : lineIndex;
+                            setLoopRange(normalizeLoopRange(lineIndex, other));
+                        }}
+                        className="w-full px-2 py-2 bg-white/5 border border-white/10 rounded-lg text-xs font-mono text-white/70 focus:outline-none focus:border-neon-green"
+                    >
+                        <option value="" className="bg-deep-bg">{key === 'startLineIndex' ? 'FROM LINE' : 'TO LINE'}</option>
+                        {lyrics.lines.map((line, i) => (
+                            <option key={i} value={i} className="bg-deep-bg">
+                                {i + 1}. {line.text.length > 28 ? `${line.text.slice(0, 28)}…` : line.text}
+                            </option>
+                        ))}
+                    </select>
+                ))}
+            </div>
+            {loopRange && (
+                <div className="flex justify-between items-center text-xs font-mono text-white/40 mt-3">
+                    <span>SPEED RAMP TO {LOOP_RAMP_MAX_RATE.toFixed(1)}x AT {Math.round(LOOP_RAMP_TARGET_ACCURACY * 100)}%</span>
+                    <button
+                        onClick={() => setLoopRampEnabled(!loopRampEnabled)}
+                        className={`px-3 py-1 rounded-lg text-xs transition-all ${
+                            loopRampEnabled
+                                ? 'bg-neon-green/20 text-neon-green border border-neon-green/50'
+                                : 'bg-white/5 text-white/50 border border-white/10 hover:bg-white/10'
+                        }`}
+                    >
+                        {loopRampEnabled ? 'ON' : 'OFF'}
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+}
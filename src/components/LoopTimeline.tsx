@@ -0,0 +1,65 @@
+import { useState } from 'react';
+import { useGameStore } from '../stores/gameStore';
+import { useAudioSync } from '../hooks/useAudioSync';
+import { ProgressBar } from './ProgressBar';
+import { getCurrentLineIndex } from '../utils/lrcParser';
+import { getLoopBounds, normalizeLoopRange } from '../utils/loop';
+
+interface LoopTimelineProps {
+    audio: ReturnType<typeof useAudioSync>;
+}
+
+export function LoopTimeline({ audio }: LoopTimelineProps) {
+    const { lyrics, lyricsOffset, preRollMs, loopRange, setLoopRange, loopPasses, lastLoopAccuracy } = useGameStore();
+    const [loopAnchor, setLoopAnchor] = useState<number | null>(null);
+
+    if (!lyrics) return null;
+
+    const loopBounds = loopRange ? getLoopBounds(lyrics.lines, loopRange, lyricsOffset, preRollMs) : null;
+
+    const handleSelectLoopTime = (timeMs: number) => {
+        const lineIndex = Math.max(0, getCurrentLineIndex(lyrics.lines, timeMs + lyricsOffset));
+        if (loopAnchor === null) {
+            setLoopAnchor(lineIndex);
+        } else {
+            setLoopRange(normalizeLoopRange(loopAnchor, lineIndex));
+            setLoopAnchor(null);
+        }
+    };
+
+    const handleClearLoop = () => {
+        setLoopRange(null);
+        setLoopAnchor(null);
+    };
+
+    return (
+        <div className="max-w-3xl mx-auto w-full px-8 space-y-3">
+            <div className="flex items-center justify-between gap-4 font-mono text-xs">
+                {loopRange ? (
+                    <span className="text-neon-green tracking-widest">
+                        LOOP {loopRange.startLineIndex + 1}-{loopRange.endLineIndex + 1}
+                        <span className="text-white/40"> · PASS {loopPasses + 1}</span>
+                        {lastLoopAccuracy !== null && <span className="text-white/40"> · LAST {Math.round(lastLoopAccuracy * 100)}%</span>}
+                        <span className="text-white/40"> · {audio.playbackRate.toFixed(2)}x</span>
+                    </span>
+                ) : (
+                    <span className="text-white/30">
+                        {loopAnchor === null ? 'CLICK THE TIMELINE TWICE TO LOOP A SECTION' : `LOOP FROM LINE ${loopAnchor + 1} · CLICK THE END POINT`}
+                    </span>
+                )}
+                {(loopRange || loopAnchor !== null) && (
+                    <button onClick={handleClearLoop} className="text-white/40 hover:text-white">
+                        CLEAR LOOP
+                    </button>
+                )}
+            </div>
+            <ProgressBar
+                currentTimeMs={audio.currentTime}
+                durationMs={audio.duration}
+                loopStartMs={loopBounds?.start}
+                loopEndMs={loopBounds?.end}
+                onSelectTime={handleSelectLoopTime}
+            />
+        </div>
+    );
+}
@@ -0,0 +1,54 @@
+import { useMemo } from 'react';
+import { useGameStore } from '../stores/gameStore';
+import { applyLyricFix, lintLyrics, type LyricFix } from '../utils/lyricLinter';
+
+interface LyricCheckProps {
+    audioDurationMs: number;
+}
+
+export function LyricCheck({ audioDurationMs }: LyricCheckProps) {
+    const { lyrics } = useGameStore();
+    const diagnostics = useMemo(
+        () => lyrics ? lintLyrics(lyrics, audioDurationMs) : [],
+        [lyrics, audioDurationMs]
+    );
+
+    const handleApplyFix = (fix: LyricFix) => {
+        if (!lyrics) return;
+        useGameStore.setState({ lyrics: applyLyricFix(lyrics, fix), loopRange: null });
+    };
+
+    if (diagnostics.length === 0) return null;
+
+    return (
+        <div className="bg-amber-500/5 p-5 rounded-2xl max-w-md mx-auto border border-amber-500/20 text-left">
+            <div className="flex justify-between text-sm font-mono text-amber-300 mb-3">
+                <span>LYRIC CHECK</span>
+                <span className="text-white/40">{diagnostics.length} {diagnostics.length === 1 ? 'ISSUE' : 'ISSUES'}</span>
+            </div>
+            <ul className="space-y-3 max-h-48 overflow-y-auto pr-1">
+                {diagnostics.map((diagnostic, i) => (
+                    <li key={`${diagnostic.code}-${diagnostic.lineIndex ?? 'all'}-${i}`} className="flex items-start gap-3">
+                        <span className={`mt-1.5 w-2 h-2 rounded-full shrink-0 ${
+                            diagnostic.severity === 'error'
+                                ? 'bg-rose-500'
+                                : diagnostic.severity === 'warning' ? 'bg-amber-400' : 'bg-neon-blue'
+                        }`} />
+                        <div className="flex-1 min-w-0">
+                            <p className="text-sm text-white/80">{diagnostic.message}</p>
+                            <p className="text-xs text-white/40">{diagnostic.suggestion}</p>
+                        </div>
+                        {diagnostic.fix && (
+                            <button
+                                onClick={() => handleApplyFix(diagnostic.fix!)}
+                                className="px-2 py-1 text-xs font-mono uppercase bg-white/5 text-white/60 border border-white/10 rounded hover:bg-white/10 hover:text-white transition-colors"
+                            >
+                                {diagnostic.fix.type}
+                            </button>
+                        )}
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+}
@@ -1,14 +1,20 @@
-import { useMemo } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { useGameStore } from '../stores/gameStore';
+import { getSweptCharacterCount, getVoiceClass, getVoices, isLineForVoice } from '../utils/lrcParser';
+import { hasNonLatinScript, normalizeText, toTypingText, transliterate } from '../utils/normalization';
 
 interface LyricDisplayProps {
     className?: string;
+    getAudioTime?: () => number;
 }
 
-export function LyricDisplay({ className = '' }: LyricDisplayProps) {
-    const { lyrics, currentLineIndex, typedText, isLineCompleted } = useGameStore();
+export function LyricDisplay({ className = '', getAudioTime }: LyricDisplayProps) {
+    const { lyrics, currentLineIndex, typedText, isLineCompleted, status, lyricsOffset, selectedVoice, scriptMode } = useGameStore();
+    const [sweptChars, setSweptChars] = useState(0);
+    const [isArmed, setIsArmed] = useState(false);
 
     const lines = useMemo(() => lyrics?.lines ?? [], [lyrics]);
+    const voices = useMemo(() => getVoices(lines), [lines]);
 
     const displayLines = useMemo(() => {
         const prev = currentLineIndex > 0 ? lines[currentLineIndex - 1] : null;
@@ -17,36 +23,95 @@ export function LyricDisplay({ className = '' }: LyricDisplayProps) {
         return { prev, current, next };
     }, [lines, currentLineIndex]);
 
+    const romanize = scriptMode === 'romanized';
+
+    const currentText = useMemo(() => {
+        const line = displayLines.current;
+        if (!line) return null;
+        const typing = toTypingText(line.text, romanize);
+        const alternate = romanize
+            ? line.text
+            : hasNonLatinScript(line.text) ? transliterate(normalizeText(line.text)) : null;
+        return { typing, alternate: alternate !== typing ? alternate : null };
+    }, [displayLines, romanize]);
+
+    useEffect(() => {
+        const line = displayLines.current;
+        if (!line || !getAudioTime || (status !== 'playing' && status !== 'replaying' && status !== 'practicing')) return;
+
+        let frame = requestAnimationFrame(function tick() {
+            const time = getAudioTime() + lyricsOffset;
+            setSweptChars(getSweptCharacterCount(line, time));
+            setIsArmed(time < line.time);
+            frame = requestAnimationFrame(tick);
+        });
+
+        return () => cancelAnimationFrame(frame);
+    }, [displayLines, getAudioTime, status, lyricsOffset]);
+
+    const renderVoiceLabel = (voice: string | undefined) => {
+        if (!voice || voices.length < 2) return null;
+        return (
+            <span className={`mr-3 font-mono text-xs uppercase tracking-widest opacity-70 ${getVoiceClass(voice, voices)}`}>
+                {voice}
+            </span>
+        );
+    };
+
     const renderCurrentLine = () => {
-        if (!displayLines.current) return null;
+        if (!displayLines.current || !currentText) return null;
+
+        const expectedText = currentText.typing;
+        const sweptIndex = (sweptChars / displayLines.current.text.length) * expectedText.length;
+
+        if (!isLineForVoice(displayLines.current, selectedVoice)) {
+            return (
+                <div className="leading-tight">
+                    <div className={`font-display font-medium text-4xl md:text-5xl opacity-40 ${getVoiceClass(displayLines.current.voice, voices)}`}>
+                        {expectedText}
+                    </div>
+                    <div className="mt-3 font-mono text-xs text-white/30 uppercase tracking-widest">
+                        {displayLines.current.voice} part · listen
+                    </div>
+                </div>
+            );
+        }
 
-        const expectedText = displayLines.current.text;
         const chars = expectedText.split('');
 
         return (
-            <div className="flex flex-wrap justify-center gap-[2px] leading-tight">
-                {chars.map((char, index) => {
-                    let styleClass = 'text-white/20';
-
-                    if (isLineCompleted) {
-                        styleClass = 'text-neon-blue drop-shadow-[0_0_8px_rgba(0,243,255,0.8)]';
-                    } else if (index < typedText.length) {
-                        const typedChar = typedText[index];
-                        if (typedChar.toLowerCase() === char.toLowerCase()) {
+            <div>
+                {currentText.alternate && (
+                    <div className="mb-4 font-display text-xl text-white/40">
+                        {currentText.alternate}
+                    </div>
+                )}
+                <div className="flex flex-wrap justify-center gap-[2px] leading-tight">
+                    {chars.map((char, index) => {
+                        let styleClass = 'text-white/20';
+
+                        if (isLineCompleted) {
                             styleClass = 'text-neon-blue drop-shadow-[0_0_8px_rgba(0,243,255,0.8)]';
-                        } else {
-                            styleClass = 'text-rose-500 line-through opacity-50';
+                        } else if (index < typedText.length) {
+                            const typedChar = typedText[index];
+                            if (typedChar.toLowerCase() === char.toLowerCase()) {
+                                styleClass = 'text-neon-blue drop-shadow-[0_0_8px_rgba(0,243,255,0.8)]';
+                            } else {
+                                styleClass = 'text-rose-500 line-through opacity-50';
+                            }
+                        } else if (index === typedText.length) {
+                            styleClass = 'text-white bg-neon-blue/20 rounded-sm animate-pulse';
+                        } else if (index < sweptIndex) {
+                            styleClass = 'text-neon-purple/70';
                         }
-                    } else if (index === typedText.length) {
-                        styleClass = 'text-white bg-neon-blue/20 rounded-sm animate-pulse';
-                    }
-
-                    return (
-                        <span key={index} className={`font-display font-medium text-4xl md:text-5xl transition-colors duration-100 ${styleClass}`}>
-                            {char === ' ' ? '\u00A0' : char}
-                        </span>
-                    );
-                })}
+
+                        return (
+                            <span key={index} className={`font-display font-medium text-4xl md:text-5xl transition-colors duration-100 ${styleClass}`}>
+                                {char === ' ' ? '\u00A0' : char}
+                            </span>
+                        );
+                    })}
+                </div>
             </div>
         );
     };
@@ -70,20 +135,42 @@ export function LyricDisplay({ className = '' }: LyricDisplayProps) {
             <div className="h-12 flex items-center justify-center mb-8 opacity-40 transform scale-90 blur-[1px] transition-all duration-500">
                 {displayLines.prev && (
                     <span className="font-display text-xl text-white/60">
+                        {renderVoiceLabel(displayLines.prev.voice)}
                         {displayLines.prev.text}
                     </span>
                 )}
             </div>
 
 
-            <div className="relative py-8 px-8 bg-black/20 backdrop-blur-sm rounded-3xl border border-white/5 shadow-2xl w-full max-w-4xl text-center">
+            <div className={`relative py-8 px-8 bg-black/20 backdrop-blur-sm rounded-3xl border shadow-2xl w-full max-w-4xl text-center transition-colors duration-300 ${isArmed && !isLineCompleted ? 'border-neon-green/40' : 'border-white/5'}`}>
+                {isArmed && !isLineCompleted && (
+                    <div className="absolute top-3 right-6 font-mono text-xs uppercase tracking-widest text-neon-green animate-pulse">
+                        Armed
+                    </div>
+                )}
+
+                {displayLines.current?.voice && voices.length > 1 && (
+                    <div className={`absolute top-3 left-6 font-mono text-xs uppercase tracking-widest ${getVoiceClass(displayLines.current.voice, voices)}`}>
+                        {displayLines.current.voice}
+                    </div>
+                )}
+
+                {getAudioTime && (
+                    <div className="absolute top-0 left-0 h-1 w-full rounded-t-3xl overflow-hidden">
+                        <div
+                            className="h-full bg-neon-purple/60 shadow-[0_0_10px_#bc13fe]"
+                            style={{ width: `${Math.min(100, (sweptChars / displayLines.current!.text.length) * 100)}%` }}
+                        />
+                    </div>
+                )}
+
                 {renderCurrentLine()}
 
 
                 <div className="absolute bottom-0 left-0 h-1 bg-neon-blue/30 w-full rounded-b-3xl overflow-hidden">
                     <div
                         className="h-full bg-neon-blue transition-all duration-100 ease-linear shadow-[0_0_10px_#00f3ff]"
-                        style={{ width: `${isLineCompleted ? 100 : Math.min(100, (typedText.length / displayLines.current!.text.length) * 100)}%` }}
+                        style={{ width: `${isLineCompleted ? 100 : Math.min(100, (typedText.length / currentText!.typing.length) * 100)}%` }}
                     />
                 </div>
             </div>
@@ -92,6 +179,7 @@ export function LyricDisplay({ className = '' }: LyricDisplayProps) {
             <div className="mt-12 h-8 flex items-center justify-center opacity-30 transform scale-90">
                 {displayLines.next && (
                     <span className="font-display text-xl text-white/40">
+                        {renderVoiceLabel(displayLines.next.voice)}
                         {displayLines.next.text}
                     </span>
                 )}
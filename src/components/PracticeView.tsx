@@ -0,0 +1,102 @@
+import { useGameStore } from '../stores/gameStore';
+import { useAudioSync } from '../hooks/useAudioSync';
+import { usePractice } from '../hooks/usePractice';
+import { LyricDisplay } from './LyricDisplay';
+import { TypingInput } from './TypingInput';
+import { PRACTICE_TARGET_ACCURACY } from '../utils/practice';
+
+interface PracticeViewProps {
+    audio: ReturnType<typeof useAudioSync>;
+    practiceMode: ReturnType<typeof usePractice>;
+}
+
+export function PracticeView({ audio, practiceMode }: PracticeViewProps) {
+    const { lyrics, practice } = useGameStore();
+
+    if (!lyrics || !practice) return null;
+
+    return (
+        <div className="w-full flex-1 flex flex-col justify-center space-y-12 pb-12">
+            <div className="flex items-center justify-center gap-4 font-mono text-xs tracking-widest">
+                <span className="px-3 py-1 bg-neon-green/10 border border-neon-green/40 rounded text-neon-green">PRACTICE</span>
+                <span className="text-white/40">
+                    LINE {Math.min(practice.position + 1, practice.queue.length)} / {practice.queue.length}
+                </span>
+                <span className="text-white/40">TARGET {Math.round(PRACTICE_TARGET_ACCURACY * 100)}%</span>
+            </div>
+
+            {practice.phase === 'done' ? (
+                <div className="max-w-2xl mx-auto w-full px-8 space-y-6">
+                    <h2 className="text-center font-display font-bold text-3xl text-white">
+                        PRACTICE <span className="text-neon-green">COMPLETE</span>
+                    </h2>
+                    <div className="space-y-2">
+                        {practice.attempts.map(attempt => (
+                            <div key={attempt.lineIndex} className="flex items-center justify-between gap-4 p-3 bg-white/5 border border-white/5 rounded-lg font-mono text-sm">
+                                <span className="text-white/70 truncate">{lyrics.lines[attempt.lineIndex]?.text}</span>
+                                <span className="flex items-center gap-4 shrink-0">
+                                    <span className="text-white/40">{attempt.attempts}×</span>
+                                    <span className={attempt.passed ? 'text-neon-green' : 'text-rose-400'}>
+                                        {Math.round(attempt.bestAccuracy * 100)}%
+                                    </span>
+                                </span>
+                            </div>
+                        ))}
+                    </div>
+                    <div className="flex justify-center">
+                        <button
+                            onClick={practiceMode.exitPractice}
+                            className="px-6 py-3 bg-neon-blue text-deep-bg font-bold rounded-xl hover:bg-white transition-colors"
+                        >
+                            BACK TO RESULTS
+                        </button>
+                    </div>
+                </div>
+            ) : (
+                <>
+                    <div className="flex-1 flex items-center">
+                        <LyricDisplay className="w-full" getAudioTime={audio.getCurrentTime} />
+                    </div>
+
+                    <div className="w-full space-y-6">
+                        <TypingInput
+                            onTyping={practiceMode.handleTyping}
+                            onSubmit={() => {}}
+                            disabled={practice.phase !== 'playing'}
+                        />
+
+                        <div className="max-w-3xl mx-auto w-full px-8 space-y-4 font-mono text-xs">
+                            {practice.phase === 'result' && practice.lastResult && (
+                                <div className={`text-center tracking-widest ${practice.lastResult.characterAccuracy >= PRACTICE_TARGET_ACCURACY ? 'text-neon-green' : 'text-rose-400'}`}>
+                                    {Math.round(practice.lastResult.characterAccuracy * 100)}% ·{' '}
+                                    {practice.lastResult.characterAccuracy >= PRACTICE_TARGET_ACCURACY ? 'NEXT LINE' : 'AGAIN'}
+                                </div>
+                            )}
+
+                            <div className="flex items-center justify-center gap-2">
+                                <button
+                                    onClick={practiceMode.retryLine}
+                                    className="px-4 py-2 bg-white/5 border border-white/10 rounded-lg text-white/60 hover:bg-white/10 hover:text-white transition-colors"
+                                >
+                                    RESTART CLIP
+                                </button>
+                                <button
+                                    onClick={practiceMode.skipLine}
+                                    className="px-4 py-2 bg-white/5 border border-white/10 rounded-lg text-white/60 hover:bg-white/10 hover:text-white transition-colors"
+                                >
+                                    SKIP LINE
+                                </button>
+                                <button
+                                    onClick={practiceMode.exitPractice}
+                                    className="px-4 py-2 border border-white/20 text-white/60 rounded-lg hover:bg-white/10 hover:text-white transition-colors"
+                                >
+                                    EXIT PRACTICE
+                                </button>
+                            </div>
+                        </div>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+}
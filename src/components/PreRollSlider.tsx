@@ -0,0 +1,25 @@
+import { MAX_PRE_ROLL_MS, useGameStore } from '../stores/gameStore';
+
+export function PreRollSlider() {
+    const { preRollMs, setPreRollMs } = useGameStore();
+
+    return (
+        <div>
+            <label className="flex justify-between text-sm font-mono text-white/60 mb-3">
+                <span>TYPE-AHEAD PRE-ROLL</span>
+                <span className={preRollMs === 0 ? 'text-white/40' : 'text-neon-green'}>
+                    {preRollMs === 0 ? 'OFF' : `${preRollMs}ms`}
+                </span>
+            </label>
+            <input
+                type="range" min="0" max={MAX_PRE_ROLL_MS} step="100"
+                value={preRollMs}
+                onChange={(e) => setPreRollMs(parseInt(e.target.value))}
+                className="w-full h-1 bg-white/10 rounded-lg appearance-none cursor-pointer accent-neon-green"
+            />
+            <p className="text-xs text-white/30 mt-1 text-center">
+                Lines become typeable this early, so finishing before the singer counts as early
+            </p>
+        </div>
+    );
+}
@@ -0,0 +1,209 @@
+import { useRef, useState } from 'react';
+import { useGameStore } from '../stores/gameStore';
+import {
+    applyBackup,
+    createBackup,
+    getBackupFileName,
+    parseBackup,
+    previewBackup,
+    type BackupConflictStrategy,
+    type BackupImportMode,
+    type BackupPreview,
+    type ProfileBackup as ProfileBackupData,
+} from '../utils/backup';
+
+interface ProfileBackupProps {
+    onClose: () => void;
+    onImported: () => void;
+}
+
+export function ProfileBackup({ onClose, onImported }: ProfileBackupProps) {
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [pending, setPending] = useState<{ backup: ProfileBackupData; preview: BackupPreview } | null>(null);
+    const [mode, setMode] = useState<BackupImportMode>('merge');
+    const [conflicts, setConflicts] = useState<BackupConflictStrategy>('keep-existing');
+    const [busy, setBusy] = useState(false);
+    const [message, setMessage] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleExport = async () => {
+        setBusy(true);
+        setError(null);
+        try {
+            const backup = await createBackup();
+            const url = URL.createObjectURL(new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' }));
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = getBackupFileName(backup);
+            link.click();
+            URL.revokeObjectURL(url);
+            setMessage(`Exported ${backup.runs.length} runs.`);
+        } catch (error) {
+            console.error('Backup export error:', error);
+            setError('Could not export your data.');
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleFile = async (file: File) => {
+        setBusy(true);
+        setError(null);
+        setMessage(null);
+        try {
+            const { backup, skippedRecords } = parseBackup(await file.text());
+            setPending({ backup, preview: await previewBackup(backup, skippedRecords) });
+        } catch (error) {
+            setPending(null);
+            setError(error instanceof Error ? error.message : 'Could not read the backup file.');
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleApply = async () => {
+        if (!pending) return;
+        setBusy(true);
+        setError(null);
+        try {
+            await applyBackup(pending.backup, mode, conflicts);
+            useGameStore.getState().reloadSettings();
+            setPending(null);
+            setMessage('Backup imported.');
+            onImported();
+        } catch (error) {
+            console.error('Backup import error:', error);
+            setError('Could not import the backup.');
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const preview = pending?.preview;
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-md p-4">
+            <div className="bg-deep-surface border border-white/10 rounded-3xl p-8 max-w-lg w-full max-h-[90vh] overflow-y-auto animate-slide-up space-y-6">
+                <h2 className="font-display font-bold text-3xl text-white text-center">
+                    PROFILE <span className="text-neon-blue">BACKUP</span>
+                </h2>
+
+                <div className="grid grid-cols-2 gap-3">
+                    <button
+                        onClick={handleExport}
+                        disabled={busy}
+                        className="px-4 py-3 rounded-xl font-mono text-sm font-bold bg-neon-blue text-deep-bg hover:bg-white transition-colors disabled:opacity-30"
+                    >
+                        EXPORT
+                    </button>
+                    <button
+                        onClick={() => fileInputRef.current?.click()}
+                        disabled={busy}
+                        className="px-4 py-3 rounded-xl font-mono text-sm text-white/70 border border-white/10 hover:text-white hover:bg-white/10 transition-colors disabled:opacity-30"
+                    >
+                        IMPORT FILE
+                    </button>
+                    <input
+                        ref={fileInputRef}
+                        type="file"
+                        accept=".json,application/json"
+                        className="hidden"
+                        onChange={(e) => {
+                            const file = e.target.files?.[0];
+                            if (file) handleFile(file);
+                            e.target.value = '';
+                        }}
+                    />
+                </div>
+
+                {preview && (
+                    <div className="p-4 rounded-xl border border-white/10 bg-white/5 space-y-4">
+                        <div className="font-mono text-xs text-white/40 uppercase tracking-widest">
+                            Exported {new Date(preview.exportedAt).toLocaleString()}
+                        </div>
+                        <div className="grid grid-cols-2 gap-2 font-mono text-sm">
+                            <span className="text-white/60">Runs</span>
+                            <span className="text-right text-white">{preview.runs}</span>
+                            <span className="text-white/60">New runs</span>
+                            <span className="text-right text-neon-green">{preview.newRuns}</span>
+                            <span className="text-white/60">Already saved</span>
+                            <span className="text-right text-white/40">{preview.duplicateRuns}</span>
+                            <span className="text-white/60">Conflicting runs</span>
+                            <span className="text-right text-neon-pink">{preview.conflictingRuns}</span>
+                            <span className="text-white/60">Custom lyrics</span>
+                            <span className="text-right text-white">
+                                {preview.customLyrics}{preview.conflictingLyrics > 0 && <span className="text-neon-pink"> ({preview.conflictingLyrics} differ)</span>}
+                            </span>
+                            <span className="text-white/60">Song offsets</span>
+                            <span className="text-right text-white">{preview.songOffsets}</span>
+                            <span className="text-white/60">Best runs</span>
+                            <span className="text-right text-white">{preview.bestRuns}</span>
+                        </div>
+                        {preview.skippedRecords > 0 && (
+                            <p className="text-xs text-amber-300">
+                                {preview.skippedRecords} unreadable {preview.skippedRecords === 1 ? 'record' : 'records'} will be skipped.
+                            </p>
+                        )}
+
+                        <div className="space-y-2">
+                            <div className="font-mono text-xs text-white/40 uppercase tracking-widest">Mode</div>
+                            <div className="flex gap-2">
+                                {(['merge', 'replace'] as const).map(m => (
+                                    <button
+                                        key={m}
+                                        onClick={() => setMode(m)}
+                                        className={`flex-1 px-4 py-2 rounded-xl font-mono text-xs uppercase tracking-widest transition-all ${mode === m
+                                            ? 'bg-neon-blue text-deep-bg font-bold'
+                                            : 'bg-white/5 text-white/50 hover:bg-white/10 hover:text-white'
+                                            }`}
+                                    >
+                                        {m}
+                                    </button>
+                                ))}
+                            </div>
+                            {mode === 'replace' && (
+                                <p className="text-xs text-rose-400">Replace deletes this profile's runs and saved data first. Shared lyrics, offsets and difficulty profiles are merged.</p>
+                            )}
+                        </div>
+
+                        <div className="space-y-2">
+                            <div className="font-mono text-xs text-white/40 uppercase tracking-widest">On conflict</div>
+                            <div className="flex gap-2">
+                                {([['keep-existing', 'Keep mine'], ['prefer-backup', 'Use backup']] as const).map(([value, label]) => (
+                                    <button
+                                        key={value}
+                                        onClick={() => setConflicts(value)}
+                                        className={`flex-1 px-4 py-2 rounded-xl font-mono text-xs uppercase tracking-widest transition-all ${conflicts === value
+                                            ? 'bg-neon-purple text-white font-bold'
+                                            : 'bg-white/5 text-white/50 hover:bg-white/10 hover:text-white'
+                                            }`}
+                                    >
+                                        {label}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+
+                        <button
+                            onClick={handleApply}
+                            disabled={busy}
+                            className="w-full px-4 py-3 rounded-xl font-mono text-sm font-bold bg-gradient-to-r from-neon-blue to-neon-purple text-white hover:scale-[1.02] transition-transform disabled:opacity-30"
+                        >
+                            APPLY IMPORT
+                        </button>
+                    </div>
+                )}
+
+                {message && <p className="text-sm text-neon-green text-center">{message}</p>}
+                {error && <p className="text-sm text-rose-400 text-center">{error}</p>}
+
+                <button
+                    onClick={onClose}
+                    className="w-full px-4 py-3 rounded-xl font-mono text-xs text-white/50 hover:text-white hover:bg-white/10 transition-colors"
+                >
+                    CLOSE
+                </button>
+            </div>
+        </div>
+    );
+}
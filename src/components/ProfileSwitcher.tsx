@@ -0,0 +1,146 @@
+import { useState } from 'react';
+import { useGameStore } from '../stores/gameStore';
+import { deleteProfile } from '../utils/storage';
+import {
+    DEFAULT_PROFILE_ID,
+    MAX_PROFILE_NAME_LENGTH,
+    createProfile,
+    getActiveProfileId,
+    getProfiles,
+    renameProfile,
+    setActiveProfileId,
+    validateProfileName,
+} from '../utils/profiles';
+
+interface ProfileSwitcherProps {
+    onSwitch: () => void;
+}
+
+export function ProfileSwitcher({ onSwitch }: ProfileSwitcherProps) {
+    const [profiles, setProfiles] = useState(getProfiles);
+    const [activeId, setActiveId] = useState(getActiveProfileId);
+    const [editing, setEditing] = useState<'new' | 'rename' | null>(null);
+    const [name, setName] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const [confirmDelete, setConfirmDelete] = useState(false);
+
+    const activate = (id: string) => {
+        setActiveProfileId(id);
+        setActiveId(id);
+        setConfirmDelete(false);
+        useGameStore.getState().reloadSettings();
+        onSwitch();
+    };
+
+    const handleSave = () => {
+        const validationError = validateProfileName(name, editing === 'rename' ? activeId : undefined);
+        if (validationError) {
+            setError(validationError);
+            return;
+        }
+
+        if (editing === 'new') {
+            const profile = createProfile(name);
+            setProfiles(getProfiles());
+            activate(profile.id);
+        } else {
+            renameProfile(activeId, name);
+            setProfiles(getProfiles());
+        }
+        setEditing(null);
+        setError(null);
+    };
+
+    const handleDelete = async () => {
+        if (!confirmDelete) {
+            setConfirmDelete(true);
+            return;
+        }
+        try {
+            await deleteProfile(activeId);
+            setProfiles(getProfiles());
+            activate(DEFAULT_PROFILE_ID);
+        } catch (error) {
+            console.error('Profile delete error:', error);
+        }
+    };
+
+    const startEditing = (mode: 'new' | 'rename') => {
+        setEditing(mode);
+        setName(mode === 'rename' ? profiles.find(p => p.id === activeId)?.name ?? '' : '');
+        setError(null);
+    };
+
+    return (
+        <div className="max-w-4xl mx-auto flex flex-col items-center gap-3">
+            <div className="flex flex-wrap justify-center items-center gap-2">
+                <span className="font-mono text-xs text-white/40 uppercase tracking-widest mr-2">Player</span>
+                {profiles.map(profile => (
+                    <button
+                        key={profile.id}
+                        onClick={() => activate(profile.id)}
+                        className={`px-4 py-2 rounded-xl font-mono text-xs uppercase tracking-widest transition-all ${activeId === profile.id
+                            ? 'bg-neon-purple text-white font-bold'
+                            : 'bg-white/5 text-white/50 hover:bg-white/10 hover:text-white'
+                            }`}
+                    >
+                        {profile.name}
+                    </button>
+                ))}
+                <button
+                    onClick={() => startEditing('new')}
+                    className="px-4 py-2 rounded-xl font-mono text-xs text-neon-blue border border-neon-blue/30 hover:bg-neon-blue/10 transition-all"
+                >
+                    + NEW
+                </button>
+            </div>
+
+            {editing ? (
+                <div className="flex flex-col items-center gap-2">
+                    <div className="flex gap-2">
+                        <input
+                            value={name}
+                            autoFocus
+                            maxLength={MAX_PROFILE_NAME_LENGTH}
+                            onChange={(e) => setName(e.target.value)}
+                            onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+                            placeholder="Profile name"
+                            className="px-3 py-2 bg-black/30 border border-white/10 rounded-lg text-sm text-white focus:outline-none focus:border-neon-blue"
+                        />
+                        <button
+                            onClick={handleSave}
+                            className="px-4 py-2 rounded-lg text-xs font-mono font-bold bg-neon-blue text-deep-bg hover:bg-white transition-colors"
+                        >
+                            {editing === 'new' ? 'CREATE' : 'RENAME'}
+                        </button>
+                        <button
+                            onClick={() => setEditing(null)}
+                            className="px-4 py-2 rounded-lg text-xs font-mono text-white/50 hover:text-white hover:bg-white/10 transition-colors"
+                        >
+                            CANCEL
+                        </button>
+                    </div>
+                    {error && <p className="text-xs text-rose-400">{error}</p>}
+                </div>
+            ) : (
+                <div className="flex gap-2">
+                    <button
+                        onClick={() => startEditing('rename')}
+                        className="px-3 py-1 rounded-lg text-xs font-mono text-white/30 hover:text-white hover:bg-white/10 transition-colors"
+                    >
+                        RENAME
+                    </button>
+                    {activeId !== DEFAULT_PROFILE_ID && (
+                        <button
+                            onClick={handleDelete}
+                            onBlur={() => setConfirmDelete(false)}
+                            className={`px-3 py-1 rounded-lg text-xs font-mono transition-colors ${confirmDelete ? 'text-rose-400 bg-rose-500/10' : 'text-white/30 hover:text-rose-400 hover:bg-white/10'}`}
+                        >
+                            {confirmDelete ? 'CONFIRM DELETE' : 'DELETE'}
+                        </button>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -4,10 +4,21 @@ interface ProgressBarProps {
     currentTimeMs: number;
     durationMs: number;
     className?: string;
+    loopStartMs?: number;
+    loopEndMs?: number;
+    onSelectTime?: (timeMs: number) => void;
 }
 
-export function ProgressBar({ currentTimeMs, durationMs, className = '' }: ProgressBarProps) {
+export function ProgressBar({ currentTimeMs, durationMs, className = '', loopStartMs, loopEndMs, onSelectTime }: ProgressBarProps) {
     const progress = durationMs > 0 ? (currentTimeMs / durationMs) * 100 : 0;
+    const hasLoop = loopStartMs !== undefined && loopEndMs !== undefined && durationMs > 0;
+
+    const handleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+        if (!onSelectTime || durationMs <= 0) return;
+        const rect = e.currentTarget.getBoundingClientRect();
+        const fraction = Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width));
+        onSelectTime(fraction * durationMs);
+    };
 
     return (
         <div className={`w-full ${className} select-none`}>
@@ -18,7 +29,20 @@ export function ProgressBar({ currentTimeMs, durationMs, className = '' }: Progr
             </div>
 
 
-            <div className="relative h-1 bg-white/5 rounded-full overflow-visible">
+            <div
+                onClick={handleClick}
+                className={`relative h-1 bg-white/5 rounded-full overflow-visible ${onSelectTime ? 'cursor-pointer' : ''}`}
+            >
+
+                {hasLoop && (
+                    <div
+                        className="absolute -inset-y-1 bg-neon-green/20 border-x border-neon-green rounded-sm"
+                        style={{
+                            left: `${(loopStartMs / durationMs) * 100}%`,
+                            width: `${(Math.max(0, loopEndMs - loopStartMs) / durationMs) * 100}%`,
+                        }}
+                    />
+                )}
 
                 <div
                     className="absolute inset-x-0 h-full rounded-full opacity-0 overflow-hidden"
@@ -0,0 +1,239 @@
+import { useEffect, useMemo, useState } from 'react';
+import { queryRuns } from '../utils/history';
+import { getActiveProfile } from '../utils/profiles';
+import { getDifficultySettings } from '../utils/difficulty';
+import {
+    GRADES,
+    GRADE_STYLES,
+    PROGRESS_RANGES,
+    buildDailyProgress,
+    getGradeDistribution,
+    getMostPlayedSongs,
+    getPersonalBests,
+    getRangeStart,
+    type ProgressRange,
+} from '../utils/progress';
+import type { RunRecord } from '../types';
+
+interface ProgressDashboardProps {
+    onClose: () => void;
+}
+
+interface TrendPoint {
+    label: string;
+    value: number;
+}
+
+const CHART_WIDTH = 320;
+const CHART_HEIGHT = 100;
+
+function TrendChart({ points, colorClass, format }: { points: TrendPoint[]; colorClass: string; format: (value: number) => string }) {
+    if (points.length === 0) {
+        return <div className="h-[100px] flex items-center justify-center text-white/20 font-mono text-xs">NO DATA</div>;
+    }
+
+    const values = points.map(p => p.value);
+    const min = Math.min(...values);
+    const max = Math.max(...values);
+    const span = max - min || 1;
+    const coords = points.map((p, i) => [
+        points.length === 1 ? CHART_WIDTH / 2 : (i / (points.length - 1)) * CHART_WIDTH,
+        CHART_HEIGHT - 8 - ((p.value - min) / span) * (CHART_HEIGHT - 16),
+    ]);
+
+    return (
+        <div>
+            <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className={`w-full h-[100px] ${colorClass}`} preserveAspectRatio="none">
+                <polyline
+                    points={coords.map(([x, y]) => `${x},${y}`).join(' ')}
+                    fill="none"
+                    stroke="currentColor"
+                    strokeWidth={2}
+                    vectorEffect="non-scaling-stroke"
+                />
+                {coords.map(([x, y], i) => (
+                    <circle key={points[i].label} cx={x} cy={y} r={3} fill="currentColor">
+                        <title>{`${points[i].label}: ${format(points[i].value)}`}</title>
+                    </circle>
+                ))}
+            </svg>
+            <div className="flex justify-between font-mono text-[10px] text-white/30 mt-1">
+                <span>{points[0].label}</span>
+                <span>{format(min)} – {format(max)}</span>
+                <span>{points[points.length - 1].label}</span>
+            </div>
+        </div>
+    );
+}
+
+function BarChart({ points, format }: { points: TrendPoint[]; format: (value: number) => string }) {
+    if (points.length === 0) {
+        return <div className="h-[100px] flex items-center justify-center text-white/20 font-mono text-xs">NO DATA</div>;
+    }
+
+    const max = Math.max(1, ...points.map(p => p.value));
+    return (
+        <div>
+            <div className="flex items-end gap-1 h-[100px]">
+                {points.map(p => (
+                    <div
+                        key={p.label}
+                        title={`${p.label}: ${format(p.value)}`}
+                        className="flex-1 bg-neon-green/60 hover:bg-neon-green rounded-t transition-colors"
+                        style={{ height: `${Math.max(2, (p.value / max) * 100)}%` }}
+                    />
+                ))}
+            </div>
+            <div className="flex justify-between font-mono text-[10px] text-white/30 mt-1">
+                <span>{points[0].label}</span>
+                <span>max {format(max)}</span>
+                <span>{points[points.length - 1].label}</span>
+            </div>
+        </div>
+    );
+}
+
+function formatMinutes(ms: number): string {
+    const minutes = Math.round(ms / 60000);
+    return minutes >= 60 ? `${Math.floor(minutes / 60)}h ${minutes % 60}m` : `${minutes}m`;
+}
+
+export function ProgressDashboard({ onClose }: ProgressDashboardProps) {
+    const [range, setRange] = useState<ProgressRange>('30d');
+    const [runs, setRuns] = useState<RunRecord[]>([]);
+    const [profile] = useState(getActiveProfile);
+
+    useEffect(() => {
+        queryRuns({ profileId: profile.id, from: getRangeStart(range) })
+            .then(all => setRuns(all.filter(run => !run.settings?.looped)))
+            .catch(error => console.error('Progress load error:', error));
+    }, [profile.id, range]);
+
+    const daily = useMemo(() => buildDailyProgress(runs), [runs]);
+    const grades = useMemo(() => getGradeDistribution(runs), [runs]);
+    const mostPlayed = useMemo(() => getMostPlayedSongs(runs), [runs]);
+    const personalBests = useMemo(() => getPersonalBests(runs), [runs]);
+    const maxGradeCount = Math.max(1, ...GRADES.map(g => grades[g]));
+    const totalPlaytime = daily.reduce((sum, day) => sum + day.playtimeMs, 0);
+
+    const wpmPoints = daily
+        .filter(day => day.averageWpm !== null)
+        .map(day => ({ label: day.date.slice(5), value: day.averageWpm ?? 0 }));
+    const accuracyPoints = daily.map(day => ({ label: day.date.slice(5), value: day.averageAccuracy * 100 }));
+    const playtimePoints = daily.map(day => ({ label: day.date.slice(5), value: day.playtimeMs }));
+
+    return (
+        <div className="w-full min-h-screen flex flex-col p-4 md:p-8 max-w-5xl mx-auto">
+            <div className="flex justify-between items-center mb-8">
+                <button
+                    onClick={onClose}
+                    className="flex items-center gap-2 text-white/40 hover:text-white transition-colors font-mono text-sm tracking-widest uppercase"
+                >
+                    ← Back to Search
+                </button>
+                <div className="text-right">
+                    <div className="font-display font-bold text-2xl text-white">PLAYER <span className="text-neon-green">PROGRESS</span></div>
+                    <div className="font-mono text-xs text-neon-blue uppercase tracking-widest">
+                        {`${profile.name} // ${runs.length} runs // ${formatMinutes(totalPlaytime)} played`}
+                    </div>
+                </div>
+            </div>
+
+            <div className="flex gap-2 mb-6">
+                {PROGRESS_RANGES.map(r => (
+                    <button
+                        key={r.range}
+                        onClick={() => setRange(r.range)}
+                        className={`px-4 py-2 rounded-xl font-mono text-xs uppercase tracking-widest transition-all ${range === r.range
+                            ? 'bg-neon-blue text-deep-bg font-bold'
+                            : 'bg-white/5 text-white/50 hover:bg-white/10 hover:text-white'
+                            }`}
+                    >
+                        {r.label}
+                    </button>
+                ))}
+            </div>
+
+            {runs.length === 0 ? (
+                <div className="bg-deep-surface border border-white/10 rounded-3xl p-6 text-center text-white/20 font-mono py-12">
+                    NO RUNS IN THIS RANGE
+                </div>
+            ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div className="bg-deep-surface border border-white/10 rounded-3xl p-6">
+                        <h3 className="font-mono text-xs text-white/40 uppercase tracking-widest mb-4">WPM trend</h3>
+                        <TrendChart points={wpmPoints} colorClass="text-neon-blue" format={v => v.toFixed(0)} />
+                    </div>
+
+                    <div className="bg-deep-surface border border-white/10 rounded-3xl p-6">
+                        <h3 className="font-mono text-xs text-white/40 uppercase tracking-widest mb-4">Accuracy trend</h3>
+                        <TrendChart points={accuracyPoints} colorClass="text-neon-purple" format={v => `${v.toFixed(1)}%`} />
+                    </div>
+
+                    <div className="bg-deep-surface border border-white/10 rounded-3xl p-6">
+                        <h3 className="font-mono text-xs text-white/40 uppercase tracking-widest mb-4">Playtime per day</h3>
+                        <BarChart points={playtimePoints} format={formatMinutes} />
+                    </div>
+
+                    <div className="bg-deep-surface border border-white/10 rounded-3xl p-6">
+                        <h3 className="font-mono text-xs text-white/40 uppercase tracking-widest mb-4">Grade distribution</h3>
+                        <div className="space-y-2">
+                            {GRADES.map(grade => (
+                                <div key={grade} className="flex items-center gap-3 font-mono text-sm">
+                                    <span className={`w-4 font-bold ${GRADE_STYLES[grade].color}`}>{grade}</span>
+                                    <div className="flex-1 h-3 bg-white/5 rounded-full overflow-hidden">
+                                        <div
+                                            className={`h-full ${GRADE_STYLES[grade].bar}`}
+                                            style={{ width: `${(grades[grade] / maxGradeCount) * 100}%` }}
+                                        />
+                                    </div>
+                                    <span className="w-8 text-right text-white/60">{grades[grade]}</span>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+
+                    <div className="bg-deep-surface border border-white/10 rounded-3xl p-6">
+                        <h3 className="font-mono text-xs text-white/40 uppercase tracking-widest mb-4">Most played</h3>
+                        <div className="space-y-2">
+                            {mostPlayed.map(song => (
+                                <div key={song.songId} className="flex items-center gap-3 font-mono text-sm">
+                                    <div className="flex-1 min-w-0">
+                                        <div className="text-white font-bold truncate">{song.trackName}</div>
+                                        <div className="text-white/40 text-xs truncate">{song.artistName}</div>
+                                    </div>
+                                    <span className="text-white/60">{song.plays}×</span>
+                                    <span className="text-neon-blue w-20 text-right">{song.bestScore.toLocaleString()}</span>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+
+                    <div className="bg-deep-surface border border-white/10 rounded-3xl p-6">
+                        <h3 className="font-mono text-xs text-white/40 uppercase tracking-widest mb-4">Personal bests</h3>
+                        <table className="w-full font-mono text-sm">
+                            <thead>
+                                <tr className="text-white/40 text-xs uppercase tracking-widest text-left">
+                                    <th className="py-2">Difficulty</th>
+                                    <th className="py-2 text-right">Score</th>
+                                    <th className="py-2 text-right">Accuracy</th>
+                                    <th className="py-2 text-right">WPM</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {personalBests.map(best => (
+                                    <tr key={best.difficulty} className="border-t border-white/5" title={`${best.trackName} — ${new Date(best.date).toLocaleDateString()}`}>
+                                        <td className="py-2 text-white font-bold uppercase">{getDifficultySettings(best.difficulty).name}</td>
+                                        <td className="py-2 text-right text-neon-blue">{best.score.toLocaleString()}</td>
+                                        <td className="py-2 text-right text-white/80">{(best.accuracy * 100).toFixed(1)}%</td>
+                                        <td className="py-2 text-right text-white/80">{best.wpm === null ? '—' : best.wpm.toFixed(0)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
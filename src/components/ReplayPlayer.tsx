@@ -0,0 +1,81 @@
+import { REPLAY_SPEEDS, useReplay } from '../hooks/useReplay';
+import { useAudioSync } from '../hooks/useAudioSync';
+import { LyricDisplay } from './LyricDisplay';
+import { TypingInput } from './TypingInput';
+import { formatTime } from '../utils/lrcParser';
+
+interface ReplayPlayerProps {
+    audio: ReturnType<typeof useAudioSync>;
+    replay: ReturnType<typeof useReplay>;
+}
+
+export function ReplayPlayer({ audio, replay }: ReplayPlayerProps) {
+    return (
+        <div className="w-full flex-1 flex flex-col justify-center space-y-12 pb-12">
+            <div className="flex-1 flex items-center">
+                <LyricDisplay className="w-full" getAudioTime={audio.getCurrentTime} />
+            </div>
+
+            <div className="w-full space-y-6">
+                <TypingInput onTyping={() => {}} onSubmit={() => {}} disabled />
+
+                <div className="max-w-3xl mx-auto w-full px-8 space-y-4">
+                    <input
+                        type="range" min="0" max={audio.duration || 0} step="100"
+                        value={audio.currentTime}
+                        onChange={(e) => audio.seek(parseFloat(e.target.value))}
+                        className="w-full h-1 bg-white/10 rounded-lg appearance-none cursor-pointer accent-neon-blue"
+                    />
+
+                    <div className="flex flex-wrap items-center justify-between gap-4 font-mono text-xs">
+                        <div className="flex items-center gap-2">
+                            <button
+                                onClick={audio.isPlaying ? audio.pause : audio.play}
+                                className="px-4 py-2 bg-neon-blue text-deep-bg font-bold rounded-lg hover:bg-white transition-colors"
+                            >
+                                {audio.isPlaying ? 'PAUSE' : 'PLAY'}
+                            </button>
+                            <span className="text-white/40">
+                                {formatTime(audio.currentTime)} / {formatTime(audio.duration)}
+                            </span>
+                        </div>
+
+                        <div className="flex items-center gap-1">
+                            {REPLAY_SPEEDS.map(speed => (
+                                <button
+                                    key={speed}
+                                    onClick={() => audio.setPlaybackRate(speed)}
+                                    className={`px-3 py-1 rounded transition-colors ${
+                                        audio.playbackRate === speed
+                                            ? 'bg-neon-purple/20 text-neon-purple border border-neon-purple/50'
+                                            : 'bg-white/5 text-white/50 border border-white/10 hover:bg-white/10'
+                                    }`}
+                                >
+                                    {speed}x
+                                </button>
+                            ))}
+                        </div>
+
+                        <button
+                            onClick={replay.exitReplay}
+                            className="px-4 py-2 border border-white/20 text-white/60 rounded-lg hover:bg-white/10 hover:text-white transition-colors"
+                        >
+                            EXIT REPLAY
+                        </button>
+                    </div>
+
+                    {replay.mismatch ? (
+                        <div className="p-3 border border-rose-500/30 bg-rose-500/10 text-rose-300 rounded-lg font-mono text-xs">
+                            REPLAY MISMATCH: recorded {replay.mismatch.recordedScore.toLocaleString()}, replayed {replay.mismatch.replayScore.toLocaleString()}
+                            {replay.mismatch.lineIndexes.length > 0 && ` · lines ${replay.mismatch.lineIndexes.map(i => i + 1).join(', ')}`}
+                        </div>
+                    ) : (
+                        <div className="text-center text-emerald-400 font-mono text-xs tracking-widest">
+                            SCORE VERIFIED · {replay.timeline?.finalScore.toLocaleString()}
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -1,12 +1,14 @@
 import { useMemo } from 'react';
 import { useGameStore } from '../stores/gameStore';
 import { getTimingLabel, getTimingClass } from '../utils/scoring';
+import { getDifficultySettings } from '../utils/difficulty';
 
 interface ScoreBoardProps {
     className?: string;
+    ghostScoreDelta?: number | null;
 }
 
-export function ScoreBoard({ className = '' }: ScoreBoardProps) {
+export function ScoreBoard({ className = '', ghostScoreDelta = null }: ScoreBoardProps) {
     const { score, combo, difficulty, lineResults } = useGameStore();
 
     const accuracy = lineResults.length > 0
@@ -46,6 +48,11 @@ export function ScoreBoard({ className = '' }: ScoreBoardProps) {
                 <div className="font-display font-bold text-7xl text-white tracking-widest text-glow drop-shadow-2xl">
                     {score.toLocaleString()}
                 </div>
+                {ghostScoreDelta !== null && (
+                    <div className={`font-mono text-xs tracking-widest mt-1 ${ghostScoreDelta >= 0 ? 'text-neon-green' : 'text-rose-400'}`}>
+                        {ghostScoreDelta >= 0 ? '+' : ''}{ghostScoreDelta.toLocaleString()} VS PB
+                    </div>
+                )}
 
 
                 <div className="h-8 mt-2 overflow-visible flex justify-center">
@@ -71,7 +78,7 @@ export function ScoreBoard({ className = '' }: ScoreBoardProps) {
                     Accuracy
                 </div>
                 <div className={`px-3 py-1 bg-white/5 border border-white/10 rounded text-[10px] font-mono uppercase tracking-widest text-white/60`}>
-                    MODE: {difficulty.toUpperCase()}
+                    MODE: {getDifficultySettings(difficulty).name.toUpperCase()}
                 </div>
             </div>
         </div>
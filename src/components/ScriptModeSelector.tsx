@@ -0,0 +1,39 @@
+import { useGameStore } from '../stores/gameStore';
+import { hasNonLatinScript } from '../utils/normalization';
+
+export function ScriptModeSelector() {
+    const { lyrics, scriptMode, setScriptMode } = useGameStore();
+
+    if (!lyrics?.lines.some(line => hasNonLatinScript(line.text))) return null;
+
+    return (
+        <div>
+            <label className="block text-sm font-mono text-white/60 mb-3">SCRIPT</label>
+            <div className="grid grid-cols-2 gap-2">
+                <button
+                    onClick={() => setScriptMode('original')}
+                    className={`px-3 py-2 rounded-lg text-xs font-mono transition-all ${
+                        scriptMode === 'original'
+                            ? 'bg-neon-blue/20 text-neon-blue border border-neon-blue/50'
+                            : 'bg-white/5 text-white/50 border border-white/10 hover:bg-white/10'
+                    }`}
+                >
+                    TYPE ORIGINAL
+                </button>
+                <button
+                    onClick={() => setScriptMode('romanized')}
+                    className={`px-3 py-2 rounded-lg text-xs font-mono transition-all ${
+                        scriptMode === 'romanized'
+                            ? 'bg-neon-purple/20 text-neon-purple border border-neon-purple/50'
+                            : 'bg-white/5 text-white/50 border border-white/10 hover:bg-white/10'
+                    }`}
+                >
+                    TYPE ROMANIZED
+                </button>
+            </div>
+            <p className="text-xs text-white/30 mt-2 text-center">
+                {scriptMode === 'original' ? 'Type the lyrics as written' : 'Type a Latin transliteration of the lyrics'}
+            </p>
+        </div>
+    );
+}
@@ -2,6 +2,8 @@ import { useState, useCallback, useEffect, useRef } from 'react';
 import { useLyrics } from '../hooks/useLyrics';
 import { useGameStore } from '../stores/gameStore';
 import { parseLRC } from '../utils/lrcParser';
+import { LYRIC_FILE_EXTENSIONS, parseLyricsFile } from '../utils/subtitleParser';
+import { getAllCustomLyrics } from '../utils/storage';
 import type { SearchResult } from '../types';
 
 function formatDuration(seconds: number): string {
@@ -20,11 +22,22 @@ function getGradient(str: string) {
     return `linear-gradient(135deg, hsl(${c1}, 70%, 20%) 0%, hsl(${c2}, 70%, 15%) 100%)`;
 }
 
+function getLocalSongId(str: string): number {
+    let hash = 0;
+    for (let i = 0; i < str.length; i++) {
+        hash = (str.charCodeAt(i) + ((hash << 5) - hash)) | 0;
+    }
+    return -Math.abs(hash || 1);
+}
+
 export function SongSearch() {
     const [query, setQuery] = useState('');
+    const [importError, setImportError] = useState<string | null>(null);
     const { searchResults, isSearching, searchError, searchSongs } = useLyrics();
     const { setSong, currentSong } = useGameStore();
     const debounceRef = useRef<number | null>(null);
+    const lyricFileInputRef = useRef<HTMLInputElement>(null);
+    const customLyrics = getAllCustomLyrics();
 
     useEffect(() => {
         if (debounceRef.current) clearTimeout(debounceRef.current);
@@ -35,8 +48,12 @@ export function SongSearch() {
     }, [query, searchSongs]);
 
     const handleSelectSong = useCallback((song: SearchResult) => {
-        if (!song.syncedLyrics) return;
-        const lyrics = parseLRC(song.syncedLyrics);
+        const custom = customLyrics[song.id.toString()];
+        const lyrics = custom
+            ? parseLRC(custom.lrc)
+            : song.syncedLyrics
+                ? parseLRC(song.syncedLyrics)
+                : { lines: [], metadata: {} };
         setSong({
             id: song.id,
             name: song.name,
@@ -45,12 +62,49 @@ export function SongSearch() {
             albumName: song.albumName,
             duration: song.duration,
             instrumental: song.instrumental,
-            syncedLyrics: song.syncedLyrics,
+            plainLyrics: song.plainLyrics ?? undefined,
+            syncedLyrics: song.syncedLyrics ?? undefined,
         }, lyrics);
+    }, [customLyrics, setSong]);
+
+    const handleImportLyrics = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+
+        setImportError(null);
+        try {
+            const lyrics = parseLyricsFile(file.name, await file.text());
+            if (lyrics.lines.length === 0) {
+                throw new Error(`No timed lines found in ${file.name}`);
+            }
+
+            const lastLine = lyrics.lines[lyrics.lines.length - 1];
+            const trackName = lyrics.metadata.title || file.name.replace(/\.[^.]+$/, '');
+            setSong({
+                id: getLocalSongId(`${file.name}:${file.size}`),
+                name: trackName,
+                trackName,
+                artistName: lyrics.metadata.artist || 'Unknown Artist',
+                albumName: lyrics.metadata.album,
+                duration: lyrics.metadata.duration ?? Math.ceil((lastLine.endTime ?? lastLine.time) / 1000),
+                instrumental: false,
+            }, lyrics);
+        } catch (error) {
+            console.error('Lyrics import error:', error);
+            setImportError(error instanceof Error ? error.message : 'Failed to import lyrics file');
+        }
     }, [setSong]);
 
     return (
         <div className="w-full max-w-5xl mx-auto px-4">
+            <input
+                ref={lyricFileInputRef}
+                type="file"
+                accept={LYRIC_FILE_EXTENSIONS.join(',')}
+                onChange={handleImportLyrics}
+                className="hidden"
+            />
 
             <div className="relative mb-12 text-center">
                 <input
@@ -74,6 +128,21 @@ export function SongSearch() {
                 </div>
             </div>
 
+            <div className="-mt-8 mb-12 text-center">
+                <button
+                    onClick={() => lyricFileInputRef.current?.click()}
+                    className="px-4 py-2 rounded-full text-xs font-mono tracking-widest text-white/40 hover:text-white hover:bg-white/10 transition-all uppercase"
+                >
+                    Import lyrics file (LRC, SRT, VTT, TTML)
+                </button>
+            </div>
+
+
+            {importError && (
+                <div className="mb-8 p-4 bg-rose-500/10 border border-rose-500/50 rounded-lg text-rose-400 text-center font-mono">
+                    IMPORT ERROR: {importError}
+                </div>
+            )}
 
             {searchError && (
                 <div className="mb-8 p-4 bg-rose-500/10 border border-rose-500/50 rounded-lg text-rose-400 text-center font-mono">
@@ -102,10 +171,18 @@ export function SongSearch() {
 
                         <div className="relative p-6 h-48 flex flex-col justify-end text-left">
                             <div className="mb-auto opacity-0 group-hover:opacity-100 transition-opacity duration-300 transform -translate-y-2 group-hover:translate-y-0">
-                                {song.syncedLyrics && (
+                                {customLyrics[song.id.toString()] ? (
+                                    <span className="inline-block px-3 py-1 text-[10px] font-bold tracking-wider rounded-full bg-neon-purple/20 text-neon-purple border border-neon-purple/30 uppercase">
+                                        Custom Sync
+                                    </span>
+                                ) : song.syncedLyrics ? (
                                     <span className="inline-block px-3 py-1 text-[10px] font-bold tracking-wider rounded-full bg-neon-green/20 text-neon-green border border-neon-green/30 uppercase">
                                         Sync Ready
                                     </span>
+                                ) : (
+                                    <span className="inline-block px-3 py-1 text-[10px] font-bold tracking-wider rounded-full bg-amber-500/20 text-amber-400 border border-amber-500/30 uppercase">
+                                        Needs Sync
+                                    </span>
                                 )}
                             </div>
 
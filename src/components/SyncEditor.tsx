@@ -0,0 +1,362 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useGameStore } from '../stores/gameStore';
+import { useAudioSync } from '../hooks/useAudioSync';
+import { formatTime, formatTimestamp, parseLRC, serializeLRC } from '../utils/lrcParser';
+import { deleteCustomLyrics, getCustomLyrics, saveCustomLyrics } from '../utils/storage';
+import { ProgressBar } from './ProgressBar';
+import type { LyricWord } from '../types';
+
+interface SyncEditorProps {
+    onClose: () => void;
+}
+
+interface EditorLine {
+    text: string;
+    time: number | null;
+    voice?: string;
+    words?: LyricWord[];
+}
+
+const NUDGE_STEPS = [-100, -10, 10, 100];
+const LOOP_FALLBACK_MS = 5000;
+
+export function SyncEditor({ onClose }: SyncEditorProps) {
+    const { currentSong, lyrics, audioUrl, lyricsOffset, setLyrics, setLyricsOffset } = useGameStore();
+    const audio = useAudioSync();
+    const { loadAudio } = audio;
+
+    const [lines, setLines] = useState<EditorLine[]>(() => {
+        if (lyrics && lyrics.lines.length > 0) {
+            return lyrics.lines.map(line => ({
+                text: line.text,
+                time: Math.max(0, line.time - lyricsOffset),
+                voice: line.voice,
+                words: line.words?.map(word => ({
+                    text: word.text,
+                    time: word.time - line.time,
+                    endTime: word.endTime === undefined ? undefined : word.endTime - line.time,
+                })),
+            }));
+        }
+        return (currentSong?.plainLyrics ?? '')
+            .split(/\r?\n/)
+            .map(text => text.trim())
+            .filter(Boolean)
+            .map(text => ({ text, time: null }));
+    });
+    const [cursor, setCursor] = useState(() => {
+        const firstUnstamped = lines.findIndex(line => line.time === null);
+        return firstUnstamped === -1 ? 0 : firstUnstamped;
+    });
+    const [selected, setSelected] = useState(0);
+    const [isLooping, setIsLooping] = useState(false);
+    const [savedMessage, setSavedMessage] = useState<string | null>(null);
+    const [hasSavedTimings, setHasSavedTimings] = useState(() => currentSong ? getCustomLyrics(currentSong.id.toString()) !== null : false);
+    const activeLineRef = useRef<HTMLButtonElement>(null);
+
+    useEffect(() => {
+        if (audioUrl) loadAudio(audioUrl);
+    }, [audioUrl, loadAudio]);
+
+    useEffect(() => {
+        activeLineRef.current?.scrollIntoView({ block: 'nearest' });
+    }, [selected]);
+
+    const loopRange = useMemo(() => {
+        const start = lines[selected]?.time;
+        if (start === null || start === undefined) return null;
+        const next = lines.slice(selected + 1).find(line => line.time !== null);
+        return { start, end: next?.time ?? start + LOOP_FALLBACK_MS };
+    }, [lines, selected]);
+
+    useEffect(() => {
+        if (!isLooping || !loopRange || !audio.isPlaying) return;
+        if (audio.currentTime >= loopRange.end || audio.currentTime < loopRange.start - 250) {
+            audio.seek(loopRange.start);
+        }
+    }, [isLooping, loopRange, audio]);
+
+    const stampedCount = lines.filter(line => line.time !== null).length;
+    const isComplete = lines.length > 0 && stampedCount === lines.length;
+
+    const togglePlayback = useCallback(() => {
+        if (audio.isPlaying) {
+            audio.pause();
+        } else {
+            audio.play();
+        }
+    }, [audio]);
+
+    const stampLine = useCallback(() => {
+        if (cursor >= lines.length) return;
+        const time = Math.round(audio.getCurrentTime());
+        setLines(prev => prev.map((line, i) => i === cursor ? { ...line, time } : line));
+        setSelected(cursor);
+        setCursor(cursor + 1);
+        setSavedMessage(null);
+    }, [audio, cursor, lines.length]);
+
+    const undoStamp = useCallback(() => {
+        if (cursor <= 0) return;
+        const index = cursor - 1;
+        setLines(prev => prev.map((line, i) => i === index ? { ...line, time: null } : line));
+        setSelected(index);
+        setCursor(index);
+        setSavedMessage(null);
+    }, [cursor]);
+
+    const nudgeLine = useCallback((index: number, deltaMs: number) => {
+        setLines(prev => prev.map((line, i) =>
+            i === index && line.time !== null ? { ...line, time: Math.max(0, line.time + deltaMs) } : line
+        ));
+        setSavedMessage(null);
+    }, []);
+
+    const selectLine = useCallback((index: number) => {
+        setSelected(index);
+        const time = lines[index]?.time;
+        if (time !== null && time !== undefined) {
+            audio.seek(time);
+        }
+    }, [audio, lines]);
+
+    const buildLRC = useCallback(() => {
+        return serializeLRC({
+            lines: lines
+                .filter((line): line is EditorLine & { time: number } => line.time !== null)
+                .map(line => ({
+                    text: line.text,
+                    time: line.time,
+                    voice: line.voice,
+                    words: line.words?.map(word => ({
+                        text: word.text,
+                        time: line.time + word.time,
+                        endTime: word.endTime === undefined ? undefined : line.time + word.endTime,
+                    })),
+                })),
+            metadata: {
+                ...lyrics?.metadata,
+                offset: undefined,
+                artist: currentSong?.artistName,
+                title: currentSong?.trackName,
+                album: currentSong?.albumName,
+            },
+        });
+    }, [lines, lyrics, currentSong]);
+
+    const handleSave = () => {
+        if (!currentSong || !isComplete) return;
+        const lrc = buildLRC();
+        saveCustomLyrics({
+            songId: currentSong.id.toString(),
+            trackName: currentSong.trackName,
+            artistName: currentSong.artistName,
+            lrc,
+            updatedAt: new Date().toISOString(),
+        });
+        setLyrics(parseLRC(lrc));
+        setLyricsOffset(0);
+        setHasSavedTimings(true);
+        setSavedMessage('Timings saved. This song is now playable.');
+    };
+
+    const handleDeleteSaved = () => {
+        if (!currentSong) return;
+        deleteCustomLyrics(currentSong.id.toString());
+        setLyrics(currentSong.syncedLyrics ? parseLRC(currentSong.syncedLyrics) : { lines: [], metadata: {} });
+        setHasSavedTimings(false);
+        setSavedMessage('Saved timings deleted.');
+    };
+
+    const handleExport = () => {
+        const blob = new Blob([buildLRC()], { type: 'text/plain' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `${currentSong?.artistName ?? 'Unknown'} - ${currentSong?.trackName ?? 'Lyrics'}.lrc`;
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    const handleClose = () => {
+        audio.unload();
+        onClose();
+    };
+
+    useEffect(() => {
+        const handleKeydown = (e: KeyboardEvent) => {
+            if (e.target instanceof HTMLInputElement) return;
+
+            switch (e.key) {
+                case ' ':
+                    if (e.target instanceof HTMLButtonElement) return;
+                    e.preventDefault();
+                    stampLine();
+                    break;
+                case 'p':
+                case 'P':
+                    togglePlayback();
+                    break;
+                case 'Backspace':
+                    e.preventDefault();
+                    undoStamp();
+                    break;
+                case 'ArrowLeft':
+                    e.preventDefault();
+                    nudgeLine(selected, e.shiftKey ? -100 : -10);
+                    break;
+                case 'ArrowRight':
+                    e.preventDefault();
+                    nudgeLine(selected, e.shiftKey ? 100 : 10);
+                    break;
+                case 'ArrowUp':
+                    e.preventDefault();
+                    selectLine(Math.max(0, selected - 1));
+                    break;
+                case 'ArrowDown':
+                    e.preventDefault();
+                    selectLine(Math.min(lines.length - 1, selected + 1));
+                    break;
+                case 'l':
+                case 'L':
+                    setIsLooping(prev => !prev);
+                    break;
+            }
+        };
+        window.addEventListener('keydown', handleKeydown);
+        return () => window.removeEventListener('keydown', handleKeydown);
+    }, [stampLine, togglePlayback, undoStamp, nudgeLine, selectLine, selected, lines.length]);
+
+    if (!currentSong) return null;
+
+    return (
+        <div className="w-full min-h-screen flex flex-col p-4 md:p-8 max-w-5xl mx-auto">
+            <div className="flex justify-between items-center mb-8">
+                <button
+                    onClick={handleClose}
+                    className="flex items-center gap-2 text-white/40 hover:text-white transition-colors font-mono text-sm tracking-widest uppercase"
+                >
+                    ← Back to Setup
+                </button>
+                <div className="text-right">
+                    <div className="font-display font-bold text-2xl text-white">{currentSong.trackName}</div>
+                    <div className="font-mono text-xs text-neon-blue uppercase tracking-widest">{currentSong.artistName}</div>
+                </div>
+            </div>
+
+            <div className="bg-deep-surface border border-white/10 rounded-3xl p-6 space-y-6">
+                <div className="flex flex-wrap items-center gap-3">
+                    <button
+                        onClick={togglePlayback}
+                        disabled={audio.isLoading || !audioUrl}
+                        className="px-6 py-3 bg-neon-blue text-deep-bg font-bold rounded-xl hover:bg-white transition-colors disabled:opacity-50"
+                    >
+                        {audio.isLoading ? 'LOADING...' : audio.isPlaying ? 'PAUSE' : 'PLAY'}
+                    </button>
+                    <button
+                        onClick={stampLine}
+                        disabled={cursor >= lines.length}
+                        className="px-6 py-3 bg-neon-purple/20 border border-neon-purple/50 text-neon-purple font-bold rounded-xl hover:bg-neon-purple/30 transition-colors disabled:opacity-50"
+                    >
+                        TAP LINE {Math.min(cursor + 1, lines.length)}
+                    </button>
+                    <button
+                        onClick={undoStamp}
+                        disabled={cursor <= 0}
+                        className="px-4 py-3 border border-white/10 text-white/60 rounded-xl hover:bg-white/10 transition-colors disabled:opacity-30"
+                    >
+                        UNDO
+                    </button>
+                    <button
+                        onClick={() => setIsLooping(!isLooping)}
+                        disabled={!loopRange}
+                        className={`px-4 py-3 rounded-xl border transition-colors disabled:opacity-30 ${isLooping
+                            ? 'bg-emerald-500/20 border-emerald-500/50 text-emerald-400'
+                            : 'border-white/10 text-white/60 hover:bg-white/10'
+                            }`}
+                    >
+                        LOOP {isLooping ? 'ON' : 'OFF'}
+                    </button>
+                    <div className="ml-auto font-mono text-sm text-white/40">
+                        {stampedCount}/{lines.length} STAMPED
+                    </div>
+                </div>
+
+                <ProgressBar currentTimeMs={audio.currentTime} durationMs={audio.duration} />
+
+                <div className="flex flex-wrap items-center gap-2 font-mono text-xs text-white/40">
+                    <span className="mr-2">NUDGE LINE {selected + 1}:</span>
+                    {NUDGE_STEPS.map(step => (
+                        <button
+                            key={step}
+                            onClick={() => nudgeLine(selected, step)}
+                            disabled={lines[selected]?.time === null}
+                            className="px-3 py-1 bg-white/5 border border-white/10 rounded hover:bg-white/10 hover:text-white transition-colors disabled:opacity-30"
+                        >
+                            {step > 0 ? '+' : ''}{step}ms
+                        </button>
+                    ))}
+                </div>
+
+                <p className="font-mono text-xs text-white/30">
+                    Space: tap · P: play/pause · Backspace: undo · ←/→: nudge 10ms (Shift 100ms) · ↑/↓: select · L: loop
+                </p>
+            </div>
+
+            <div className="flex-1 mt-6 max-h-[50vh] overflow-y-auto space-y-1 pr-2">
+                {lines.map((line, index) => (
+                    <button
+                        key={index}
+                        ref={index === selected ? activeLineRef : undefined}
+                        onClick={() => selectLine(index)}
+                        className={`w-full flex items-center gap-4 px-4 py-2 rounded-lg text-left transition-colors ${index === selected
+                            ? 'bg-neon-blue/10 border border-neon-blue/40'
+                            : 'border border-transparent hover:bg-white/5'
+                            }`}
+                    >
+                        <span className={`font-mono text-sm w-20 ${line.time === null ? 'text-white/20' : 'text-neon-purple'}`}>
+                            {line.time === null ? '--:--.--' : formatTimestamp(line.time)}
+                        </span>
+                        <span className={index === cursor ? 'text-white font-bold' : 'text-white/60'}>
+                            {line.text}
+                        </span>
+                    </button>
+                ))}
+                {lines.length === 0 && (
+                    <div className="text-center text-white/20 font-mono py-8">NO LYRIC TEXT AVAILABLE</div>
+                )}
+            </div>
+
+            <div className="mt-6 flex flex-wrap items-center justify-end gap-4">
+                {savedMessage && <span className="text-emerald-400 text-sm font-mono mr-auto">{savedMessage}</span>}
+                {!isComplete && lines.length > 0 && (
+                    <span className="text-white/40 text-sm font-mono mr-auto">
+                        {lines.length - stampedCount} lines left · {formatTime(audio.currentTime)}
+                    </span>
+                )}
+                {hasSavedTimings && (
+                    <button
+                        onClick={handleDeleteSaved}
+                        className="px-6 py-3 border border-rose-500/40 text-rose-400 font-bold rounded-xl hover:bg-rose-500/10 transition-colors"
+                    >
+                        DELETE SAVED TIMINGS
+                    </button>
+                )}
+                <button
+                    onClick={handleExport}
+                    disabled={stampedCount === 0}
+                    className="px-6 py-3 border border-white/20 text-white font-bold rounded-xl hover:bg-white/10 transition-colors disabled:opacity-30"
+                >
+                    EXPORT .LRC
+                </button>
+                <button
+                    onClick={handleSave}
+                    disabled={!isComplete}
+                    className="px-6 py-3 bg-gradient-to-r from-neon-blue to-neon-purple text-white font-bold rounded-xl hover:scale-105 transition-transform disabled:opacity-30 disabled:hover:scale-100"
+                >
+                    SAVE TIMINGS
+                </button>
+            </div>
+        </div>
+    );
+}
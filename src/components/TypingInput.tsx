@@ -1,5 +1,8 @@
-import { useRef, useEffect, useState, type KeyboardEvent } from 'react';
+import { useRef, useEffect, useState, type CompositionEvent, type KeyboardEvent } from 'react';
 import { useGameStore } from '../stores/gameStore';
+import { isLineForVoice } from '../utils/lrcParser';
+import { toTypingText } from '../utils/normalization';
+import { getRunTypingMode } from '../utils/runLog';
 
 interface TypingInputProps {
     onTyping: (text: string) => void;
@@ -10,8 +13,13 @@ interface TypingInputProps {
 
 export function TypingInput({ onTyping, onInputKey, onSubmit, disabled = false }: TypingInputProps) {
     const inputRef = useRef<HTMLInputElement>(null);
-    const { typedText, status, lyrics, currentLineIndex, isLineCompleted, typingMode } = useGameStore();
+    const { typedText, status, lyrics, currentLineIndex, isLineCompleted, typingMode: selectedTypingMode, scriptMode, selectedVoice, runLog } = useGameStore();
+    const typingMode = status === 'replaying' && runLog ? getRunTypingMode(runLog) : selectedTypingMode;
     const [isMobile, setIsMobile] = useState(false);
+    const [composition, setComposition] = useState<{ lineIndex: number; value: string } | null>(null);
+    const isComposing = composition !== null && composition.lineIndex === currentLineIndex;
+    const composingValue = isComposing ? composition.value : '';
+    const hasStaleComposition = composition !== null && !isComposing;
 
     useEffect(() => {
         const checkMobile = () => {
@@ -23,18 +31,30 @@ export function TypingInput({ onTyping, onInputKey, onSubmit, disabled = false }
     }, []);
 
     useEffect(() => {
-        if ((status === 'playing' || status === 'countdown') && inputRef.current) {
+        if (!hasStaleComposition) return;
+        inputRef.current?.blur();
+        inputRef.current?.focus();
+    }, [hasStaleComposition]);
+
+    useEffect(() => {
+        if ((status === 'playing' || status === 'countdown' || status === 'practicing') && inputRef.current) {
             inputRef.current.focus();
         }
     }, [status]);
 
     const handleBlur = () => {
-        if (status === 'playing' && inputRef.current) {
+        if ((status === 'playing' || status === 'practicing') && inputRef.current) {
             setTimeout(() => inputRef.current?.focus(), 10);
         }
     };
 
     const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+        if (isComposing || e.nativeEvent.isComposing || e.keyCode === 229) return;
+
+        if (e.key === 'Tab') {
+            e.preventDefault();
+        }
+
         if (onInputKey) {
             onInputKey(e.key);
         }
@@ -46,13 +66,34 @@ export function TypingInput({ onTyping, onInputKey, onSubmit, disabled = false }
     };
 
     const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        if (composition) {
+            if (isComposing) setComposition({ ...composition, value: e.target.value });
+            return;
+        }
         onTyping(e.target.value);
     };
 
+    const handleCompositionStart = () => {
+        setComposition({ lineIndex: currentLineIndex, value: typedText });
+    };
+
+    const handleCompositionEnd = (e: CompositionEvent<HTMLInputElement>) => {
+        setComposition(null);
+        if (isComposing) onTyping(e.currentTarget.value);
+    };
+
+    const preeditText = isComposing && composingValue.startsWith(typedText)
+        ? composingValue.slice(typedText.length)
+        : isComposing ? composingValue : '';
+
     const currentLine = lyrics?.lines[currentLineIndex];
+    const expectedText = currentLine ? toTypingText(currentLine.text, scriptMode === 'romanized') : '';
 
     const renderGhostText = () => {
-        if (!typedText) return <span className="text-white/20">Type to start...</span>;
+        if (currentLine && !isLineForVoice(currentLine, selectedVoice)) {
+            return <span className="text-white/20">Listening...</span>;
+        }
+        if (!typedText && !preeditText) return <span className="text-white/20">Type to start...</span>;
 
 
         return (
@@ -60,7 +101,7 @@ export function TypingInput({ onTyping, onInputKey, onSubmit, disabled = false }
                 {typedText.split('').map((char, i) => {
                     let colorClass = 'text-white';
                     if (currentLine) {
-                        const expectedChar = currentLine.text[i];
+                        const expectedChar = expectedText[i];
                         if (expectedChar && char.toLowerCase() === expectedChar.toLowerCase()) {
                             colorClass = 'text-white';
                         } else {
@@ -69,6 +110,9 @@ export function TypingInput({ onTyping, onInputKey, onSubmit, disabled = false }
                     }
                     return <span key={i} className={colorClass}>{char === ' ' ? '\u00A0' : char}</span>;
                 })}
+                {preeditText && (
+                    <span className="text-neon-purple underline decoration-dotted underline-offset-4">{preeditText}</span>
+                )}
             </span>
         );
     };
@@ -82,8 +126,10 @@ export function TypingInput({ onTyping, onInputKey, onSubmit, disabled = false }
             <input
                 ref={inputRef}
                 type="text"
-                value={typedText}
+                value={isComposing ? composingValue : typedText}
                 onChange={handleChange}
+                onCompositionStart={handleCompositionStart}
+                onCompositionEnd={handleCompositionEnd}
                 onKeyDown={handleKeyDown}
                 onBlur={handleBlur}
                 disabled={disabled}
@@ -103,10 +149,10 @@ export function TypingInput({ onTyping, onInputKey, onSubmit, disabled = false }
                 ${isLineCompleted ? 'opacity-50 blur-[1px]' : 'opacity-100'}
             `}>
 
-                <div className={`absolute inset-0 bg-black/40 backdrop-blur-xl rounded-2xl transition-all duration-300 ${status === 'playing' ? 'border border-white/10' : ''}`} />
+                <div className={`absolute inset-0 bg-black/40 backdrop-blur-xl rounded-2xl transition-all duration-300 ${status === 'playing' || status === 'replaying' || status === 'practicing' ? 'border border-white/10' : ''}`} />
 
 
-                {typingMode !== 'normal' && status === 'playing' && (
+                {typingMode !== 'normal' && (status === 'playing' || status === 'replaying' || status === 'practicing') && (
                     <div className={`absolute left-4 top-1/2 -translate-y-1/2 text-xs font-mono uppercase tracking-wider ${
                         typingMode === 'strict' ? 'text-rose-400' : 'text-emerald-400'
                     }`}>
@@ -121,7 +167,7 @@ export function TypingInput({ onTyping, onInputKey, onSubmit, disabled = false }
                             {renderGhostText()}
                         </div>
 
-                        {!isLineCompleted && status === 'playing' && (
+                        {!isLineCompleted && (status === 'playing' || status === 'replaying' || status === 'practicing') && (
                             <div className={`${isMobile ? 'w-[2px] h-[1em]' : 'w-[3px] h-[1.2em]'} bg-neon-blue ml-[1px] rounded-full animate-pulse shadow-[0_0_10px_#00f3ff]`} />
                         )}
                     </div>
@@ -0,0 +1,45 @@
+import { useGameStore } from '../stores/gameStore';
+import { DUET_VOICE, getVoiceClass, getVoices } from '../utils/lrcParser';
+
+export function VoicePartSelector() {
+    const { lyrics, selectedVoice, setSelectedVoice } = useGameStore();
+
+    const voices = lyrics ? getVoices(lyrics.lines) : [];
+    const parts = voices.filter(voice => voice !== DUET_VOICE);
+
+    if (parts.length <= 1) return null;
+
+    return (
+        <div>
+            <label className="block text-sm font-mono text-white/60 mb-3">PART</label>
+            <div className="flex flex-wrap gap-2">
+                <button
+                    onClick={() => setSelectedVoice(null)}
+                    className={`flex-1 px-3 py-2 rounded-lg text-xs font-mono transition-all ${
+                        selectedVoice === null
+                            ? 'bg-white/20 text-white border border-white/50'
+                            : 'bg-white/5 text-white/50 border border-white/10 hover:bg-white/10'
+                    }`}
+                >
+                    ALL
+                </button>
+                {parts.map(voice => (
+                    <button
+                        key={voice}
+                        onClick={() => setSelectedVoice(voice)}
+                        className={`flex-1 px-3 py-2 rounded-lg text-xs font-mono uppercase transition-all ${
+                            selectedVoice === voice
+                                ? `bg-white/10 border border-white/50 ${getVoiceClass(voice, voices)}`
+                                : 'bg-white/5 text-white/50 border border-white/10 hover:bg-white/10'
+                        }`}
+                    >
+                        {voice}
+                    </button>
+                ))}
+            </div>
+            <p className="text-xs text-white/30 mt-2 text-center">
+                {selectedVoice === null ? 'Type every part' : 'Other parts play as unscored context'}
+            </p>
+        </div>
+    );
+}
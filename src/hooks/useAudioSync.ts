@@ -1,5 +1,6 @@
 import { useRef, useCallback, useEffect, useState } from 'react';
 import { Howl } from 'howler';
+import { getSettings, saveSettings } from '../utils/storage';
 
 const STORE_UPDATE_INTERVAL_MS = 150;
 
@@ -36,7 +37,7 @@ export function useAudioSync(): UseAudioSyncReturn {
     const [duration, setDuration] = useState(0);
     const [error, setError] = useState<string | null>(null);
     const [playbackRate, setPlaybackRateState] = useState(1.0);
-    const [volume, setVolumeState] = useState(0.7);
+    const [volume, setVolumeState] = useState(() => getSettings().volume);
     const [isMuted, setIsMuted] = useState(false);
 
     const getCurrentTime = useCallback(() => {
@@ -137,6 +138,7 @@ export function useAudioSync(): UseAudioSyncReturn {
 
     const setVolume = useCallback((vol: number) => {
         setVolumeState(vol);
+        saveSettings({ volume: vol });
         if (howlRef.current) {
             howlRef.current.volume(isMuted ? 0 : vol);
         }
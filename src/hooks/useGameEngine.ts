@@ -1,10 +1,21 @@
-import { useEffect, useCallback, useRef } from 'react';
+import { useEffect, useCallback, useMemo, useRef } from 'react';
 import { useGameStore } from '../stores/gameStore';
 import { useAudioSync } from './useAudioSync';
-import { getCurrentLineIndex } from '../utils/lrcParser';
-import { calculateLineScore, removePunctuation } from '../utils/scoring';
-import { saveHighScore, isHighScore } from '../utils/storage';
+import { getActiveBreak, getCurrentLineIndex, getInstrumentalBreaks, getLineCloseTime, isLineForVoice } from '../utils/lrcParser';
+import { calculateLineScore, recordWordFinishTimes } from '../utils/scoring';
+import { normalizeForComparison, toTypingText } from '../utils/normalization';
+import { applyTypingMode } from '../utils/typingMode';
+import type { WordTimingInput } from '../utils/scoring';
+import type { DifficultySettings, InstrumentalBreak, LineResult, LyricLine, RunLog } from '../types';
+import { getBestRun, saveBestRun, saveErrorStats } from '../utils/storage';
+import { addRun } from '../utils/history';
+import { getActiveProfileId } from '../utils/profiles';
+import { calculateTypingStats } from '../utils/typingStats';
+import { collectErrorCounts } from '../utils/errorAnalytics';
 import { calculateGameStats } from '../utils/scoring';
+import { findDifficultySettings } from '../utils/difficulty';
+import { createKeystrokeEvent, createRunLog } from '../utils/runLog';
+import { getLoopAccuracy, getLoopBounds, getRampedPlaybackRate, isLineInLoop, LOOP_END_TOLERANCE_MS } from '../utils/loop';
 
 interface UseGameEngineReturn {
     audio: ReturnType<typeof useAudioSync>;
@@ -14,12 +25,22 @@ interface UseGameEngineReturn {
     startPlaying: () => void;
     pauseGame: () => void;
     resumeGame: () => void;
+    currentBreak: InstrumentalBreak | null;
+    canSkipBreak: boolean;
+    skipBreak: () => void;
 }
 
+export const BREAK_SKIP_LEAD_MS = 3000;
+
 export function useGameEngine(): UseGameEngineReturn {
     const audio = useAudioSync();
     const countdownRef = useRef<number | null>(null);
     const lastTypedTextRef = useRef<string>('');
+    const wordFinishTimesRef = useRef<(number | undefined)[]>([]);
+    const runLogRef = useRef<RunLog | null>(null);
+    const recordedTextRef = useRef({ lineIndex: -1, text: '' });
+    const loopedRef = useRef(false);
+    const difficultySettingsRef = useRef<DifficultySettings | null>(null);
 
     const {
         status,
@@ -33,6 +54,13 @@ export function useGameEngine(): UseGameEngineReturn {
         lineResults,
         lyricsOffset,
         typingMode,
+        scriptMode,
+        selectedVoice,
+        breakSkipEnabled,
+        preRollMs,
+        ghostEnabled,
+        loopRange,
+        loopRampEnabled,
         setCurrentLineIndex,
         setTypedText,
         submitLine,
@@ -41,8 +69,56 @@ export function useGameEngine(): UseGameEngineReturn {
         resumeGame: storeResume,
         updateCurrentTime,
         setShowAutoSubmitNotification,
+        setRunSaveFailed,
+        restartLoop,
     } = useGameStore();
 
+    const getTypingText = useCallback((text: string): string => {
+        return toTypingText(text, scriptMode === 'romanized');
+    }, [scriptMode]);
+
+    const getWordTiming = useCallback((line: LyricLine): WordTimingInput | undefined => {
+        if (!line.words) return undefined;
+        return { words: line.words, finishTimes: [...wordFinishTimesRef.current] };
+    }, []);
+
+    const breaks = useMemo(() => lyrics ? getInstrumentalBreaks(lyrics.lines) : [], [lyrics]);
+    const currentBreak = status === 'playing' || status === 'paused'
+        ? getActiveBreak(breaks, audio.currentTime + lyricsOffset + preRollMs)
+        : null;
+    const canSkipBreak = breakSkipEnabled && currentBreak !== null &&
+        currentBreak.endTime - BREAK_SKIP_LEAD_MS > audio.currentTime + lyricsOffset;
+
+    const recordInput = useCallback((lineIndex: number, text: string, expectedText: string, timeMs: number) => {
+        const runLog = runLogRef.current;
+        if (!runLog) return;
+
+        const previous = recordedTextRef.current.lineIndex === lineIndex ? recordedTextRef.current.text : '';
+        recordedTextRef.current = { lineIndex, text };
+
+        const event = createKeystrokeEvent(timeMs, lineIndex, previous, text, expectedText);
+        if (event) runLog.events.push(event);
+    }, []);
+
+    const scoreLine = useCallback((lineIndex: number, typed: string, timeMs: number): LineResult => {
+        const line = lyrics!.lines[lineIndex];
+        const submittedAt = Math.round(timeMs);
+        const result = calculateLineScore(
+            typed,
+            getTypingText(line.text),
+            submittedAt + lyricsOffset,
+            line.time,
+            combo,
+            difficultySettingsRef.current!,
+            getWordTiming(line)
+        );
+
+        const runLog = runLogRef.current;
+        runLog?.submissions.push([submittedAt, lineIndex, runLog.events.length]);
+
+        return { ...result, lineIndex };
+    }, [lyrics, combo, lyricsOffset, getTypingText, getWordTiming]);
+
     useEffect(() => {
         if (audio.isPlaying) {
             updateCurrentTime(audio.currentTime);
@@ -52,7 +128,7 @@ export function useGameEngine(): UseGameEngineReturn {
     useEffect(() => {
         if (status !== 'playing' || !lyrics) return;
 
-        const adjustedTime = audio.currentTime + lyricsOffset;
+        const adjustedTime = audio.currentTime + lyricsOffset + preRollMs;
         const newIndex = getCurrentLineIndex(lyrics.lines, adjustedTime);
 
         if (newIndex !== currentLineIndex && newIndex >= 0) {
@@ -60,28 +136,55 @@ export function useGameEngine(): UseGameEngineReturn {
                 const currentLine = lyrics.lines[currentLineIndex];
 
                 const alreadySubmitted = lineResults.some(r => r.lineIndex === currentLineIndex);
-                if (!alreadySubmitted) {
-                    const result = calculateLineScore(
-                        typedText,
-                        currentLine.text,
-                        audio.currentTime,
-                        currentLine.time,
-                        combo,
-                        difficulty
-                    );
-
-                    submitLine({
-                        ...result,
-                        lineIndex: currentLineIndex,
-                    });
-
+                const outsideLoop = loopRange !== null && !isLineInLoop(loopRange, currentLineIndex);
+                if (!alreadySubmitted && !outsideLoop && isLineForVoice(currentLine, selectedVoice)) {
+                    const isEarly = newIndex > currentLineIndex &&
+                        audio.currentTime + lyricsOffset < getLineCloseTime(lyrics.lines, currentLineIndex);
+                    if (isEarly) return;
+                    submitLine(scoreLine(currentLineIndex, typedText, audio.currentTime));
                     setShowAutoSubmitNotification(true);
                 }
             }
 
             setCurrentLineIndex(newIndex);
         }
-    }, [audio.currentTime, status, lyrics, currentLineIndex, typedText, combo, difficulty, lineResults, lyricsOffset, submitLine, setCurrentLineIndex, setShowAutoSubmitNotification]);
+    }, [audio.currentTime, status, lyrics, currentLineIndex, typedText, lineResults, lyricsOffset, preRollMs, submitLine, setCurrentLineIndex, setShowAutoSubmitNotification, scoreLine, selectedVoice, loopRange]);
+
+    useEffect(() => {
+        if (status !== 'playing' || !lyrics || !loopRange) return;
+
+        const bounds = getLoopBounds(lyrics.lines, loopRange, lyricsOffset, preRollMs);
+        const time = audio.currentTime;
+        const isPassEnd = time >= bounds.end && time < bounds.end + LOOP_END_TOLERANCE_MS;
+        const isOutside = time < bounds.start - LOOP_END_TOLERANCE_MS || time >= bounds.end + LOOP_END_TOLERANCE_MS;
+        if (!isPassEnd && !isOutside) return;
+
+        let accuracy: number | null = null;
+
+        if (isPassEnd) {
+            const state = useGameStore.getState();
+            let passResults = state.lineResults;
+            const line = lyrics.lines[state.currentLineIndex];
+            if (
+                line && isLineInLoop(loopRange, state.currentLineIndex) &&
+                !passResults.some(r => r.lineIndex === state.currentLineIndex) &&
+                isLineForVoice(line, selectedVoice)
+            ) {
+                passResults = [...passResults, scoreLine(state.currentLineIndex, state.typedText, time)];
+            }
+
+            accuracy = getLoopAccuracy(lyrics.lines, loopRange, passResults, selectedVoice);
+            if (loopRampEnabled && accuracy !== null) {
+                const nextRate = getRampedPlaybackRate(audio.playbackRate, accuracy);
+                if (nextRate !== audio.playbackRate) audio.setPlaybackRate(nextRate);
+            }
+        }
+
+        loopedRef.current = true;
+        runLogRef.current = null;
+        restartLoop(loopRange, accuracy);
+        audio.seek(bounds.start);
+    }, [audio, status, lyrics, loopRange, loopRampEnabled, lyricsOffset, preRollMs, selectedVoice, scoreLine, restartLoop]);
 
     useEffect(() => {
         if (typedText.length === 0) {
@@ -91,10 +194,11 @@ export function useGameEngine(): UseGameEngineReturn {
 
     useEffect(() => {
         lastTypedTextRef.current = '';
+        wordFinishTimesRef.current = [];
     }, [currentLineIndex]);
 
     useEffect(() => {
-        if (status !== 'playing' || !lyrics || !audio.duration) return;
+        if (status !== 'playing' || !lyrics || !audio.duration || loopRange) return;
 
         const lastLineIndex = lyrics.lines.length - 1;
         const lastLine = lyrics.lines[lastLineIndex];
@@ -103,45 +207,58 @@ export function useGameEngine(): UseGameEngineReturn {
             let resultsForStats = lineResults;
 
             const alreadySubmitted = lineResults.some(r => r.lineIndex === lastLineIndex);
-            if (!alreadySubmitted && currentLineIndex === lastLineIndex) {
-                const result = calculateLineScore(
-                    typedText,
-                    lastLine.text,
-                    audio.currentTime,
-                    lastLine.time,
-                    combo,
-                    difficulty
-                );
-
-                const finalResult = {
-                    ...result,
-                    lineIndex: lastLineIndex,
-                };
-
+            if (!alreadySubmitted && currentLineIndex === lastLineIndex && isLineForVoice(lastLine, selectedVoice)) {
+                const finalResult = scoreLine(lastLineIndex, typedText, audio.currentTime);
                 submitLine(finalResult);
                 resultsForStats = [...lineResults, finalResult];
             }
 
+            const stats = calculateGameStats(resultsForStats, audio.duration, difficultySettingsRef.current!);
+            if (runLogRef.current) {
+                runLogRef.current.finalScore = stats.totalScore;
+                saveBestRun(runLogRef.current);
+            }
+
             if (currentSong) {
-                const stats = calculateGameStats(resultsForStats, audio.duration);
-                if (isHighScore(currentSong.id.toString(), difficulty, stats.totalScore)) {
-                    saveHighScore({
+                if (runLogRef.current) {
+                    saveErrorStats({
                         songId: currentSong.id.toString(),
                         trackName: currentSong.trackName,
                         artistName: currentSong.artistName,
                         difficulty,
-                        score: stats.totalScore,
-                        accuracy: stats.accuracy,
-                        maxCombo: stats.maxCombo,
-                        date: new Date().toISOString(),
-                    });
+                    }, collectErrorCounts(runLogRef.current, lyrics));
                 }
+
+                addRun({
+                    profileId: getActiveProfileId(),
+                    songId: currentSong.id.toString(),
+                    trackName: currentSong.trackName,
+                    artistName: currentSong.artistName,
+                    difficulty,
+                    score: stats.totalScore,
+                    accuracy: stats.accuracy,
+                    maxCombo: stats.maxCombo,
+                    date: new Date().toISOString(),
+                    lineResults: resultsForStats,
+                    durationMs: Math.round(audio.currentTime / audio.playbackRate),
+                    settings: {
+                        playbackRate: audio.playbackRate,
+                        lyricsOffset,
+                        preRollMs,
+                        typingMode,
+                        scriptMode,
+                        selectedVoice,
+                        looped: loopedRef.current,
+                    },
+                    stats,
+                    typingStats: runLogRef.current ? calculateTypingStats(runLogRef.current, lyrics) : null,
+                }).catch(() => setRunSaveFailed(true));
             }
 
             audio.pause();
-            finishGame();
+            finishGame(runLogRef.current ?? undefined);
         }
-    }, [audio.currentTime, audio.duration, status, lyrics, currentLineIndex, lineResults, typedText, combo, difficulty, currentSong, audio, submitLine, finishGame]);
+    }, [audio.currentTime, audio.duration, status, lyrics, currentLineIndex, lineResults, typedText, difficulty, currentSong, audio, submitLine, finishGame, setRunSaveFailed, scoreLine, selectedVoice, loopRange, lyricsOffset, preRollMs, typingMode, scriptMode]);
 
     const handleTyping = useCallback((text: string) => {
         if (status !== 'playing' || lyrics?.lines[currentLineIndex] === undefined) return;
@@ -149,111 +266,99 @@ export function useGameEngine(): UseGameEngineReturn {
         if (useGameStore.getState().isLineCompleted) return;
 
         const currentLine = lyrics.lines[currentLineIndex];
-        let processedText = text;
+        if (!isLineForVoice(currentLine, selectedVoice)) return;
+        const expectedText = getTypingText(currentLine.text);
+        const typedAt = Math.round(audio.getCurrentTime());
+        const processedText = applyTypingMode(typingMode, text, lastTypedTextRef.current, expectedText);
 
-        if (typingMode === 'strict') {
-            if (text.length < lastTypedTextRef.current.length) {
-                processedText = lastTypedTextRef.current;
-            }
+        lastTypedTextRef.current = processedText;
+        setTypedText(processedText);
+        recordInput(currentLineIndex, processedText, expectedText, typedAt);
+
+        if (currentLine.words) {
+            recordWordFinishTimes(currentLine.words, processedText, scriptMode === 'romanized', wordFinishTimesRef.current, typedAt + lyricsOffset);
         }
 
-        if (typingMode === 'assist' && processedText.length > 0) {
-            const punctuation = /[.,!?;:'"()[\]{}\-–—…]/;
-            const expectedText = currentLine.text;
-
-            let alignedText = '';
-            let typedIdx = 0;
-            let expectedIdx = 0;
-
-            while (typedIdx < processedText.length && expectedIdx < expectedText.length) {
-                const typedChar = processedText[typedIdx];
-                const expectedChar = expectedText[expectedIdx];
-
-                if (punctuation.test(expectedChar) && typedChar !== expectedChar) {
-                    alignedText += expectedChar;
-                    expectedIdx++;
-                } else {
-                    alignedText += typedChar;
-                    typedIdx++;
-                    expectedIdx++;
-                }
-            }
+        const normalizedTyped = normalizeForComparison(processedText);
+        const normalizedTarget = normalizeForComparison(expectedText);
 
-            while (expectedIdx < expectedText.length && punctuation.test(expectedText[expectedIdx])) {
-                alignedText += expectedText[expectedIdx];
-                expectedIdx++;
-            }
-
-            processedText = alignedText;
+        if (normalizedTyped === normalizedTarget && normalizedTyped.length > 0) {
+            useGameStore.getState().setIsLineCompleted(true);
+            submitLine(scoreLine(currentLineIndex, processedText, typedAt));
         }
+    }, [status, lyrics, currentLineIndex, typingMode, scriptMode, lyricsOffset, setTypedText, submitLine, audio, getTypingText, selectedVoice, recordInput, scoreLine]);
 
-        lastTypedTextRef.current = processedText;
-        setTypedText(processedText);
+    const skipBreak = useCallback(() => {
+        if (status !== 'playing' || !lyrics || !canSkipBreak || !currentBreak) return;
 
-        const normalizedTyped = removePunctuation(processedText).toLowerCase();
-        const normalizedTarget = removePunctuation(currentLine.text).toLowerCase();
+        const currentAudioTime = audio.getCurrentTime();
+        const currentLine = lyrics.lines[currentLineIndex];
+        const alreadySubmitted = lineResults.some(r => r.lineIndex === currentLineIndex);
 
-        if (normalizedTyped === normalizedTarget && normalizedTyped.length > 0) {
+        if (currentLine && !alreadySubmitted && isLineForVoice(currentLine, selectedVoice)) {
+            submitLine(scoreLine(currentLineIndex, typedText, currentAudioTime));
             useGameStore.getState().setIsLineCompleted(true);
-
-            const currentAudioTime = audio.getCurrentTime();
-            const result = calculateLineScore(
-                processedText,
-                currentLine.text,
-                currentAudioTime,
-                currentLine.time,
-                combo,
-                difficulty
-            );
-
-            submitLine({
-                ...result,
-                lineIndex: currentLineIndex,
-            });
         }
-    }, [status, lyrics, currentLineIndex, combo, difficulty, typingMode, setTypedText, submitLine, audio]);
+
+        audio.seek(Math.max(currentAudioTime, currentBreak.endTime - BREAK_SKIP_LEAD_MS - lyricsOffset));
+    }, [audio, status, lyrics, canSkipBreak, currentBreak, currentLineIndex, lineResults, typedText, lyricsOffset, submitLine, scoreLine, selectedVoice]);
 
     const handleInputKey = useCallback((key: string) => {
         if (status !== 'playing') return;
 
+        if (key === 'Tab') {
+            skipBreak();
+            return;
+        }
+
         if (key === 'Enter') {
             const state = useGameStore.getState();
             if (state.isLineCompleted) return;
 
             setTypedText('');
+            recordInput(state.currentLineIndex, '', '', Math.round(audio.getCurrentTime()));
         }
-    }, [status, setTypedText]);
+    }, [status, audio, setTypedText, skipBreak, recordInput]);
 
     const handleSubmitLine = useCallback(() => {
         if (status !== 'playing' || !lyrics || currentLineIndex < 0) return;
 
         const currentLine = lyrics.lines[currentLineIndex];
+        if (!isLineForVoice(currentLine, selectedVoice)) return;
 
         const alreadySubmitted = lineResults.some(r => r.lineIndex === currentLineIndex);
         if (alreadySubmitted) return;
 
-        const currentAudioTime = audio.getCurrentTime();
-        const result = calculateLineScore(
-            typedText,
-            currentLine.text,
-            currentAudioTime,
-            currentLine.time,
-            combo,
-            difficulty
-        );
-
-        submitLine({
-            ...result,
-            lineIndex: currentLineIndex,
-        });
-    }, [audio, status, lyrics, currentLineIndex, typedText, combo, difficulty, lineResults, submitLine]);
+        submitLine(scoreLine(currentLineIndex, typedText, audio.getCurrentTime()));
+    }, [audio, status, lyrics, currentLineIndex, typedText, lineResults, submitLine, scoreLine, selectedVoice]);
 
     const startPlaying = useCallback(() => {
-        if (!audioUrl || !lyrics) return;
+        const difficultySettings = findDifficultySettings(difficulty);
+        if (!audioUrl || !lyrics || !difficultySettings) return;
+
+        difficultySettingsRef.current = difficultySettings;
 
         audio.loadAudio(audioUrl);
 
-        useGameStore.setState({ status: 'countdown' });
+        runLogRef.current = currentSong
+            ? createRunLog(currentSong.id.toString(), difficulty, {
+                romanized: scriptMode === 'romanized',
+                lyricsOffset,
+                preRollMs,
+                selectedVoice,
+                typingMode,
+                difficultySettings,
+            })
+            : null;
+        recordedTextRef.current = { lineIndex: -1, text: '' };
+        loopedRef.current = false;
+        useGameStore.setState({
+            status: 'countdown',
+            loopPasses: 0,
+            lastLoopAccuracy: null,
+            runSaveFailed: false,
+            ghostRun: ghostEnabled && currentSong ? getBestRun(currentSong.id.toString(), difficulty, typingMode) : null,
+        });
 
         let count = 3;
         countdownRef.current = window.setInterval(() => {
@@ -263,10 +368,13 @@ export function useGameEngine(): UseGameEngineReturn {
                     clearInterval(countdownRef.current);
                 }
                 useGameStore.setState({ status: 'playing' });
+                if (loopRange) {
+                    audio.seek(getLoopBounds(lyrics.lines, loopRange, lyricsOffset, preRollMs).start);
+                }
                 audio.play();
             }
         }, 1000);
-    }, [audioUrl, lyrics, audio]);
+    }, [audioUrl, lyrics, audio, currentSong, difficulty, scriptMode, lyricsOffset, preRollMs, selectedVoice, typingMode, ghostEnabled, loopRange]);
 
     const pauseGame = useCallback(() => {
         audio.pause();
@@ -294,5 +402,8 @@ export function useGameEngine(): UseGameEngineReturn {
         startPlaying,
         pauseGame,
         resumeGame,
+        currentBreak,
+        canSkipBreak,
+        skipBreak,
     };
 }
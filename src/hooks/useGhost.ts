@@ -0,0 +1,29 @@
+import { useMemo } from 'react';
+import { useGameStore } from '../stores/gameStore';
+import { buildReplayTimeline, getGhostProgress } from '../utils/replay';
+import type { GhostProgress } from '../utils/replay';
+
+export interface GhostState extends GhostProgress {
+    romanized: boolean;
+    scoreDelta: number;
+}
+
+export function useGhost(currentTimeMs: number): GhostState | null {
+    const { status, ghostRun, lyrics, currentLineIndex, score } = useGameStore();
+
+    const timeline = useMemo(
+        () => ghostRun && lyrics ? buildReplayTimeline(ghostRun, lyrics) : null,
+        [ghostRun, lyrics]
+    );
+
+    return useMemo(() => {
+        if (!ghostRun || !timeline || (status !== 'playing' && status !== 'paused')) return null;
+
+        const progress = getGhostProgress(ghostRun, timeline, currentLineIndex, currentTimeMs);
+        return {
+            ...progress,
+            romanized: ghostRun.romanized,
+            scoreDelta: score - progress.score,
+        };
+    }, [ghostRun, timeline, status, currentLineIndex, currentTimeMs, score]);
+}
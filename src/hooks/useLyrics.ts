@@ -61,13 +61,13 @@ export function useLyrics(): UseLyricsReturn {
 
             const uniqueSongs = new Map();
             data.forEach((song: SearchResult) => {
-                if (song.syncedLyrics && !uniqueSongs.has(song.id)) {
+                if ((song.syncedLyrics || song.plainLyrics) && !uniqueSongs.has(song.id)) {
                     uniqueSongs.set(song.id, song);
                 }
             });
-            const songsWithSyncedLyrics = Array.from(uniqueSongs.values());
+            const songsWithLyrics = Array.from(uniqueSongs.values());
 
-            setSearchResults(songsWithSyncedLyrics);
+            setSearchResults(songsWithLyrics);
         } catch (error) {
             if (error instanceof Error && error.name === 'AbortError') {
                 return;
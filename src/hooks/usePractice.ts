@@ -0,0 +1,174 @@
+import { useCallback, useEffect, useMemo, useRef } from 'react';
+import { useGameStore } from '../stores/gameStore';
+import { useAudioSync } from './useAudioSync';
+import { calculateLineScore, recordWordFinishTimes } from '../utils/scoring';
+import { normalizeForComparison, toTypingText } from '../utils/normalization';
+import { applyTypingMode } from '../utils/typingMode';
+import { buildPracticeQueue, getPracticeClip, recordPracticeAttempt, PRACTICE_TARGET_ACCURACY } from '../utils/practice';
+import { savePracticeRecord } from '../utils/storage';
+import { findDifficultySettings } from '../utils/difficulty';
+import type { DifficultySettings } from '../types';
+
+interface UsePracticeReturn {
+    canPractice: boolean;
+    startPractice: () => void;
+    exitPractice: () => void;
+    retryLine: () => void;
+    skipLine: () => void;
+    handleTyping: (text: string) => void;
+}
+
+export const PRACTICE_RESULT_DELAY_MS = 1500;
+
+export function usePractice(audio: ReturnType<typeof useAudioSync>): UsePracticeReturn {
+    const { status, lyrics, lineResults, lyricsOffset, scriptMode, typingMode, difficulty, currentSong, practice } = useGameStore();
+    const { seek, play, pause, getCurrentTime } = audio;
+    const wordFinishTimesRef = useRef<(number | undefined)[]>([]);
+    const difficultySettingsRef = useRef<DifficultySettings | null>(null);
+
+    const queue = useMemo(() => buildPracticeQueue(lineResults), [lineResults]);
+    const romanize = scriptMode === 'romanized';
+    const currentLine = practice && lyrics ? lyrics.lines[practice.queue[practice.position]] : undefined;
+    const clip = currentLine ? getPracticeClip(currentLine, lyricsOffset) : null;
+
+    const playClip = useCallback((position: number) => {
+        const state = useGameStore.getState();
+        const session = state.practice;
+        const line = session && state.lyrics ? state.lyrics.lines[session.queue[position]] : undefined;
+        if (!session || !line) return;
+
+        wordFinishTimesRef.current = [];
+        useGameStore.setState({
+            practice: { ...session, position, lastResult: null, phase: 'playing' },
+            currentLineIndex: session.queue[position],
+            typedText: '',
+            isLineCompleted: false,
+        });
+        seek(getPracticeClip(line, state.lyricsOffset).start);
+        play();
+    }, [seek, play]);
+
+    const finishAttempt = useCallback((typed: string, timeMs: number) => {
+        const session = useGameStore.getState().practice;
+        if (!session || session.phase !== 'playing' || !currentLine) return;
+
+        pause();
+        const lineIndex = session.queue[session.position];
+        const result = {
+            ...calculateLineScore(
+                typed,
+                toTypingText(currentLine.text, romanize),
+                Math.round(timeMs) + lyricsOffset,
+                currentLine.time,
+                0,
+                difficultySettingsRef.current!,
+                currentLine.words ? { words: currentLine.words, finishTimes: [...wordFinishTimesRef.current] } : undefined
+            ),
+            lineIndex,
+        };
+
+        useGameStore.setState({
+            practice: {
+                ...session,
+                attempts: recordPracticeAttempt(session.attempts, result),
+                lastResult: result,
+                phase: 'result',
+            },
+            isLineCompleted: true,
+        });
+    }, [currentLine, romanize, lyricsOffset, pause]);
+
+    const advance = useCallback(() => {
+        const session = useGameStore.getState().practice;
+        if (!session) return;
+
+        const next = session.position + 1;
+        if (next < session.queue.length) {
+            playClip(next);
+            return;
+        }
+
+        pause();
+        useGameStore.setState({ practice: { ...session, phase: 'done' } });
+        if (currentSong) {
+            savePracticeRecord({
+                songId: currentSong.id.toString(),
+                trackName: currentSong.trackName,
+                artistName: currentSong.artistName,
+                difficulty,
+                lines: session.attempts,
+                date: new Date().toISOString(),
+            });
+        }
+    }, [playClip, pause, currentSong, difficulty]);
+
+    const startPractice = useCallback(() => {
+        const difficultySettings = findDifficultySettings(difficulty);
+        if (queue.length === 0 || !difficultySettings) return;
+
+        difficultySettingsRef.current = difficultySettings;
+
+        useGameStore.setState({
+            status: 'practicing',
+            practice: { queue, position: 0, attempts: [], lastResult: null, phase: 'playing' },
+        });
+        playClip(0);
+    }, [queue, difficulty, playClip]);
+
+    const exitPractice = useCallback(() => {
+        pause();
+        useGameStore.setState({
+            status: 'finished',
+            practice: null,
+            typedText: '',
+            isLineCompleted: false,
+        });
+    }, [pause]);
+
+    const retryLine = useCallback(() => {
+        const session = useGameStore.getState().practice;
+        if (session) playClip(session.position);
+    }, [playClip]);
+
+    const handleTyping = useCallback((text: string) => {
+        if (status !== 'practicing' || practice?.phase !== 'playing' || !currentLine) return;
+
+        const expectedText = toTypingText(currentLine.text, romanize);
+        const typedAt = Math.round(getCurrentTime());
+        const processedText = applyTypingMode(typingMode, text, useGameStore.getState().typedText, expectedText);
+        useGameStore.getState().setTypedText(processedText);
+
+        if (currentLine.words) {
+            recordWordFinishTimes(currentLine.words, processedText, romanize, wordFinishTimesRef.current, typedAt + lyricsOffset);
+        }
+
+        const normalizedTyped = normalizeForComparison(processedText);
+        if (normalizedTyped.length > 0 && normalizedTyped === normalizeForComparison(expectedText)) {
+            finishAttempt(processedText, typedAt);
+        }
+    }, [status, practice, currentLine, romanize, typingMode, lyricsOffset, getCurrentTime, finishAttempt]);
+
+    useEffect(() => {
+        if (status !== 'practicing' || practice?.phase !== 'playing' || !clip) return;
+        if (audio.currentTime >= clip.end) {
+            finishAttempt(useGameStore.getState().typedText, audio.currentTime);
+        }
+    }, [status, practice, clip, audio.currentTime, finishAttempt]);
+
+    useEffect(() => {
+        if (status !== 'practicing' || practice?.phase !== 'result' || !practice.lastResult) return;
+
+        const passed = practice.lastResult.characterAccuracy >= PRACTICE_TARGET_ACCURACY;
+        const timer = setTimeout(passed ? advance : retryLine, PRACTICE_RESULT_DELAY_MS);
+        return () => clearTimeout(timer);
+    }, [status, practice, advance, retryLine]);
+
+    return {
+        canPractice: queue.length > 0,
+        startPractice,
+        exitPractice,
+        retryLine,
+        skipLine: advance,
+        handleTyping,
+    };
+}
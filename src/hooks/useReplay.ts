@@ -0,0 +1,112 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useGameStore } from '../stores/gameStore';
+import { useAudioSync } from './useAudioSync';
+import { buildReplayTimeline, findReplayMismatch, getReplayFrame } from '../utils/replay';
+import type { ReplayMismatch, ReplayTimeline } from '../utils/replay';
+import type { LineResult } from '../types';
+
+interface ReplaySnapshot {
+    lineResults: LineResult[];
+    score: number;
+    combo: number;
+    maxCombo: number;
+    playbackRate: number;
+}
+
+interface UseReplayReturn {
+    canReplay: boolean;
+    timeline: ReplayTimeline | null;
+    mismatch: ReplayMismatch | null;
+    startReplay: () => void;
+    exitReplay: () => void;
+}
+
+export const REPLAY_SPEEDS = [0.5, 1, 1.5, 2];
+
+export function useReplay(audio: ReturnType<typeof useAudioSync>): UseReplayReturn {
+    const { status, lyrics, runLog } = useGameStore();
+    const { getCurrentTime } = audio;
+    const snapshotRef = useRef<ReplaySnapshot | null>(null);
+    const [mismatch, setMismatch] = useState<ReplayMismatch | null>(null);
+
+    const timeline = useMemo(
+        () => runLog && lyrics ? buildReplayTimeline(runLog, lyrics) : null,
+        [runLog, lyrics]
+    );
+
+    const startReplay = useCallback(() => {
+        if (!timeline || !runLog) return;
+
+        const state = useGameStore.getState();
+        snapshotRef.current = {
+            lineResults: state.lineResults,
+            score: state.score,
+            combo: state.combo,
+            maxCombo: state.maxCombo,
+            playbackRate: audio.playbackRate,
+        };
+        setMismatch(findReplayMismatch(timeline, state.lineResults, runLog.finalScore));
+
+        useGameStore.setState({
+            status: 'replaying',
+            currentLineIndex: -1,
+            typedText: '',
+            isLineCompleted: false,
+            lineResults: [],
+            score: 0,
+            combo: 0,
+            maxCombo: 0,
+        });
+        audio.seek(0);
+        audio.play();
+    }, [timeline, runLog, audio]);
+
+    const exitReplay = useCallback(() => {
+        audio.pause();
+        const snapshot = snapshotRef.current;
+        if (snapshot) {
+            audio.setPlaybackRate(snapshot.playbackRate);
+        }
+        useGameStore.setState({
+            status: 'finished',
+            typedText: '',
+            isLineCompleted: false,
+            ...(snapshot && {
+                lineResults: snapshot.lineResults,
+                score: snapshot.score,
+                combo: snapshot.combo,
+                maxCombo: snapshot.maxCombo,
+            }),
+        });
+        snapshotRef.current = null;
+    }, [audio]);
+
+    useEffect(() => {
+        if (status !== 'replaying' || !timeline || !runLog || !lyrics) return;
+
+        let frame = requestAnimationFrame(function tick() {
+            const next = getReplayFrame(runLog, lyrics, timeline, getCurrentTime());
+            const state = useGameStore.getState();
+
+            if (
+                next.currentLineIndex !== state.currentLineIndex ||
+                next.typedText !== state.typedText ||
+                next.isLineCompleted !== state.isLineCompleted ||
+                next.lineResults.length !== state.lineResults.length
+            ) {
+                useGameStore.setState(next);
+            }
+            frame = requestAnimationFrame(tick);
+        });
+
+        return () => cancelAnimationFrame(frame);
+    }, [status, timeline, runLog, lyrics, getCurrentTime]);
+
+    return {
+        canReplay: timeline !== null,
+        timeline,
+        mismatch,
+        startReplay,
+        exitReplay,
+    };
+}
@@ -1,7 +1,11 @@
 import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
-import App from './App.tsx'
+import { migrateStorage } from './utils/storage'
+
+await migrateStorage()
+
+const { default: App } = await import('./App.tsx')
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
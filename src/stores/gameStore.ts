@@ -6,10 +6,14 @@ import type {
     SongInfo,
     ParsedLyrics,
     AudioSource,
+    RunLog,
+    LoopRange,
+    TypingMode,
 } from '../types';
-import { getSettings, saveSettings } from '../utils/storage';
+import { getSettings, getSongOffset, saveSettings, saveSongOffset } from '../utils/storage';
+import type { PracticeSession } from '../utils/practice';
 
-export type TypingMode = 'normal' | 'strict' | 'assist';
+export type ScriptMode = 'original' | 'romanized';
 
 interface GameStore extends GameState {
     currentSong: SongInfo | null;
@@ -19,6 +23,17 @@ interface GameStore extends GameState {
 
     lyricsOffset: number;
     typingMode: TypingMode;
+    scriptMode: ScriptMode;
+    selectedVoice: string | null;
+    breakSkipEnabled: boolean;
+    preRollMs: number;
+    ghostEnabled: boolean;
+    ghostRun: RunLog | null;
+    practice: PracticeSession | null;
+    loopRange: LoopRange | null;
+    loopRampEnabled: boolean;
+    loopPasses: number;
+    lastLoopAccuracy: number | null;
 
     youtubeInfo: {
         videoId?: string;
@@ -28,14 +43,25 @@ interface GameStore extends GameState {
     } | null;
 
     showAutoSubmitNotification: boolean;
+    runSaveFailed: boolean;
 
     setDifficulty: (difficulty: Difficulty) => void;
     setSong: (song: SongInfo, lyrics: ParsedLyrics) => void;
+    setLyrics: (lyrics: ParsedLyrics) => void;
     setAudioSource: (source: AudioSource, url: string) => void;
     setYoutubeInfo: (info: { videoId?: string; videoTitle?: string; videoDuration?: number; videoChannel?: string } | null) => void;
     setLyricsOffset: (offset: number) => void;
     setTypingMode: (mode: TypingMode) => void;
+    setScriptMode: (mode: ScriptMode) => void;
+    setSelectedVoice: (voice: string | null) => void;
+    setBreakSkipEnabled: (enabled: boolean) => void;
+    setPreRollMs: (preRollMs: number) => void;
+    setGhostEnabled: (enabled: boolean) => void;
+    setLoopRange: (range: LoopRange | null) => void;
+    setLoopRampEnabled: (enabled: boolean) => void;
+    restartLoop: (range: LoopRange, accuracy: number | null) => void;
     setShowAutoSubmitNotification: (show: boolean) => void;
+    setRunSaveFailed: (failed: boolean) => void;
     startGame: () => void;
     pauseGame: () => void;
     resumeGame: () => void;
@@ -44,8 +70,16 @@ interface GameStore extends GameState {
     setIsLineCompleted: (completed: boolean) => void;
     setTypedText: (text: string) => void;
     submitLine: (result: LineResult) => void;
-    finishGame: () => void;
+    finishGame: (runLog?: RunLog) => void;
     resetGame: () => void;
+    reloadSettings: () => void;
+}
+
+const MAX_LYRICS_OFFSET = 2000;
+export const MAX_PRE_ROLL_MS = 2000;
+
+function clampLyricsOffset(offset: number): number {
+    return Math.max(-MAX_LYRICS_OFFSET, Math.min(MAX_LYRICS_OFFSET, offset));
 }
 
 const initialState: GameState = {
@@ -60,6 +94,7 @@ const initialState: GameState = {
     lineResults: [],
     startTime: null,
     currentTime: 0,
+    runLog: null,
 };
 
 export const useGameStore = create<GameStore>((set, get) => ({
@@ -70,8 +105,20 @@ export const useGameStore = create<GameStore>((set, get) => ({
     audioUrl: null,
     lyricsOffset: 0,
     typingMode: 'normal',
+    scriptMode: 'original',
+    selectedVoice: null,
+    breakSkipEnabled: getSettings().breakSkipEnabled,
+    preRollMs: getSettings().preRollMs,
+    ghostEnabled: getSettings().ghostEnabled,
+    ghostRun: null,
+    practice: null,
+    loopRange: null,
+    loopRampEnabled: false,
+    loopPasses: 0,
+    lastLoopAccuracy: null,
     youtubeInfo: null,
     showAutoSubmitNotification: false,
+    runSaveFailed: false,
 
     setDifficulty: (difficulty) => {
         saveSettings({ difficulty });
@@ -82,6 +129,9 @@ export const useGameStore = create<GameStore>((set, get) => ({
         set({
             currentSong: song,
             lyrics,
+            lyricsOffset: clampLyricsOffset(getSongOffset(song.id.toString()) ?? lyrics.metadata.offset ?? 0),
+            selectedVoice: null,
+            loopRange: null,
             status: 'idle',
             audioSource: null,
             audioUrl: null,
@@ -89,6 +139,16 @@ export const useGameStore = create<GameStore>((set, get) => ({
         });
     },
 
+    setLyrics: (lyrics) => {
+        set({
+            lyrics,
+            lyricsOffset: clampLyricsOffset(lyrics.metadata.offset ?? 0),
+            selectedVoice: null,
+            loopRange: null,
+            status: 'idle',
+        });
+    },
+
     setAudioSource: (source, url) => {
         set({
             audioSource: source,
@@ -102,18 +162,78 @@ export const useGameStore = create<GameStore>((set, get) => ({
     },
 
     setLyricsOffset: (offset) => {
-        const clampedOffset = Math.max(-2000, Math.min(2000, offset));
-        set({ lyricsOffset: clampedOffset });
+        const { status } = get();
+        if (status === 'playing' || status === 'paused') return;
+        const lyricsOffset = clampLyricsOffset(offset);
+        const song = get().currentSong;
+        if (song) saveSongOffset(song.id.toString(), lyricsOffset);
+        set({ lyricsOffset });
     },
 
     setTypingMode: (mode) => {
         set({ typingMode: mode });
     },
 
+    setScriptMode: (mode) => {
+        set({ scriptMode: mode });
+    },
+
+    setSelectedVoice: (voice) => {
+        set({ selectedVoice: voice });
+    },
+
+    setBreakSkipEnabled: (enabled) => {
+        saveSettings({ breakSkipEnabled: enabled });
+        set({ breakSkipEnabled: enabled });
+    },
+
+    setPreRollMs: (preRollMs) => {
+        const clamped = Math.max(0, Math.min(MAX_PRE_ROLL_MS, preRollMs));
+        saveSettings({ preRollMs: clamped });
+        set({ preRollMs: clamped });
+    },
+
+    setGhostEnabled: (enabled) => {
+        saveSettings({ ghostEnabled: enabled });
+        set({ ghostEnabled: enabled });
+    },
+
+    setLoopRange: (range) => {
+        set({ loopRange: range, loopPasses: 0, lastLoopAccuracy: null });
+    },
+
+    setLoopRampEnabled: (enabled) => {
+        set({ loopRampEnabled: enabled });
+    },
+
+    restartLoop: (range, accuracy) => {
+        const state = get();
+        const lineResults = state.lineResults.filter(
+            r => r.lineIndex < range.startLineIndex || r.lineIndex > range.endLineIndex
+        );
+        set({
+            lineResults,
+            score: lineResults.reduce((sum, r) => sum + r.score, 0),
+            combo: lineResults[lineResults.length - 1]?.combo ?? 0,
+            maxCombo: Math.max(0, ...lineResults.map(r => r.combo)),
+            currentLineIndex: -1,
+            typedText: '',
+            isLineCompleted: false,
+            ...(accuracy !== null && {
+                loopPasses: state.loopPasses + 1,
+                lastLoopAccuracy: accuracy,
+            }),
+        });
+    },
+
     setShowAutoSubmitNotification: (show) => {
         set({ showAutoSubmitNotification: show });
     },
 
+    setRunSaveFailed: (failed) => {
+        set({ runSaveFailed: failed });
+    },
+
     startGame: () => {
         set({
             status: 'countdown',
@@ -126,6 +246,10 @@ export const useGameStore = create<GameStore>((set, get) => ({
             lineResults: [],
             startTime: null,
             currentTime: 0,
+            runLog: null,
+            loopPasses: 0,
+            lastLoopAccuracy: null,
+            runSaveFailed: false,
         });
     },
 
@@ -178,8 +302,8 @@ export const useGameStore = create<GameStore>((set, get) => ({
         });
     },
 
-    finishGame: () => {
-        set({ status: 'finished' });
+    finishGame: (runLog) => {
+        set({ status: 'finished', runLog: runLog ?? null });
     },
 
     resetGame: () => {
@@ -192,8 +316,27 @@ export const useGameStore = create<GameStore>((set, get) => ({
             audioUrl: null,
             lyricsOffset: 0,
             typingMode: 'normal',
+            scriptMode: 'original',
+            selectedVoice: null,
+            ghostRun: null,
+            practice: null,
+            loopRange: null,
+            loopRampEnabled: false,
+            loopPasses: 0,
+            lastLoopAccuracy: null,
             youtubeInfo: null,
             showAutoSubmitNotification: false,
+            runSaveFailed: false,
+        });
+    },
+
+    reloadSettings: () => {
+        const settings = getSettings();
+        set({
+            difficulty: settings.difficulty,
+            breakSkipEnabled: settings.breakSkipEnabled,
+            preRollMs: settings.preRollMs,
+            ghostEnabled: settings.ghostEnabled,
         });
     },
 }));
@@ -1,8 +1,28 @@
 
+export interface LyricWord {
+    time: number;
+    text: string;
+    endTime?: number;
+}
+
 export interface LyricLine {
     time: number;
     text: string;
     endTime?: number;
+    words?: LyricWord[];
+    voice?: string;
+    sourceLine?: number;
+}
+
+export interface InstrumentalBreak {
+    afterLineIndex: number;
+    startTime: number;
+    endTime: number;
+}
+
+export interface LoopRange {
+    startLineIndex: number;
+    endLineIndex: number;
 }
 
 export interface ParsedLyrics {
@@ -12,6 +32,10 @@ export interface ParsedLyrics {
         title?: string;
         album?: string;
         duration?: number;
+        offset?: number;
+        creator?: string;
+        editor?: string;
+        editorVersion?: string;
     };
 }
 
@@ -35,10 +59,13 @@ export interface SearchResult {
     albumName: string;
     duration: number;
     instrumental: boolean;
+    plainLyrics: string | null;
     syncedLyrics: string | null;
 }
 
-export type Difficulty = 'easy' | 'medium' | 'hard';
+export type BuiltInDifficulty = 'easy' | 'medium' | 'hard';
+
+export type Difficulty = BuiltInDifficulty | `custom-${string}`;
 
 export interface DifficultySettings {
     name: string;
@@ -51,9 +78,10 @@ export interface DifficultySettings {
     tooLatePenalty: number;
     baseScoreMultiplier: number;
     comboMultiplier: number;
+    perfectAccuracyThreshold: number;
 }
 
-export const DIFFICULTY_SETTINGS: Record<Difficulty, DifficultySettings> = {
+export const DIFFICULTY_SETTINGS: Record<BuiltInDifficulty, DifficultySettings> = {
     easy: {
         name: 'Easy',
         description: 'Relaxed timing, forgiving penalties',
@@ -65,6 +93,7 @@ export const DIFFICULTY_SETTINGS: Record<Difficulty, DifficultySettings> = {
         tooLatePenalty: 0.6,
         baseScoreMultiplier: 0.8,
         comboMultiplier: 1.05,
+        perfectAccuracyThreshold: 0.95,
     },
     medium: {
         name: 'Medium',
@@ -77,6 +106,7 @@ export const DIFFICULTY_SETTINGS: Record<Difficulty, DifficultySettings> = {
         tooLatePenalty: 0.4,
         baseScoreMultiplier: 1.0,
         comboMultiplier: 1.1,
+        perfectAccuracyThreshold: 0.95,
     },
     hard: {
         name: 'Hard',
@@ -89,11 +119,20 @@ export const DIFFICULTY_SETTINGS: Record<Difficulty, DifficultySettings> = {
         tooLatePenalty: 0.1,
         baseScoreMultiplier: 1.5,
         comboMultiplier: 1.2,
+        perfectAccuracyThreshold: 0.95,
     },
 };
 
 export type TimingResult = 'perfect' | 'early' | 'late' | 'too_early' | 'too_late';
 
+export type WordDiffStatus = 'correct' | 'misspelled' | 'missing' | 'extra';
+
+export interface WordDiff {
+    status: WordDiffStatus;
+    expected?: string;
+    typed?: string;
+}
+
 export interface LineResult {
     lineIndex: number;
     typedText: string;
@@ -103,10 +142,34 @@ export interface LineResult {
     timingScore: number;
     score: number;
     combo: number;
+    wordTimingResults?: TimingResult[];
+    wordDiff?: WordDiff[];
+}
+
+export type KeystrokeEvent = [timeMs: number, lineIndex: number, deleted: number, inserted: string, correct: 0 | 1];
+
+export type LineSubmission = [timeMs: number, lineIndex: number, eventCount: number];
+
+export type TypingMode = 'normal' | 'strict' | 'assist';
+
+export interface RunLog {
+    version: number;
+    songId: string;
+    difficulty: Difficulty;
+    romanized: boolean;
+    lyricsOffset: number;
+    preRollMs: number;
+    selectedVoice: string | null;
+    typingMode?: TypingMode;
+    difficultySettings?: DifficultySettings;
+    startedAt: string;
+    events: KeystrokeEvent[];
+    submissions: LineSubmission[];
+    finalScore?: number;
 }
 
 export interface GameState {
-    status: 'idle' | 'loading' | 'countdown' | 'playing' | 'paused' | 'finished';
+    status: 'idle' | 'loading' | 'countdown' | 'playing' | 'paused' | 'finished' | 'replaying' | 'practicing';
     difficulty: Difficulty;
     currentLineIndex: number;
     typedText: string;
@@ -117,6 +180,7 @@ export interface GameState {
     lineResults: LineResult[];
     startTime: number | null;
     currentTime: number;
+    runLog: RunLog | null;
 }
 
 export interface HighScore {
@@ -130,6 +194,34 @@ export interface HighScore {
     date: string;
 }
 
+export interface PlayerProfile {
+    id: string;
+    name: string;
+    createdAt: string;
+}
+
+export interface HouseholdScore extends HighScore {
+    profileId: string;
+    profileName: string;
+}
+
+export interface PracticeLineResult {
+    lineIndex: number;
+    attempts: number;
+    bestAccuracy: number;
+    bestScore: number;
+    passed: boolean;
+}
+
+export interface PracticeRecord {
+    songId: string;
+    trackName: string;
+    artistName: string;
+    difficulty: Difficulty;
+    lines: PracticeLineResult[];
+    date: string;
+}
+
 export interface GameStats {
     totalScore: number;
     accuracy: number;
@@ -140,6 +232,65 @@ export interface GameStats {
     wordsPerMinute: number;
 }
 
+export interface TypingStats {
+    rawWpm: number;
+    netWpm: number;
+    consistency: number;
+    lineWpm: { lineIndex: number; wpm: number }[];
+    typedCharacters: number;
+    correctedErrors: number;
+    uncorrectedErrors: number;
+    errorRate: number;
+    activeTimeMs: number;
+}
+
+export interface RunSettings {
+    playbackRate: number;
+    lyricsOffset: number;
+    preRollMs: number;
+    typingMode: TypingMode;
+    scriptMode: 'original' | 'romanized';
+    selectedVoice: string | null;
+    looped: boolean;
+}
+
+export interface RunRecord {
+    id?: number;
+    profileId: string;
+    songId: string;
+    trackName: string;
+    artistName: string;
+    difficulty: Difficulty;
+    score: number;
+    accuracy: number;
+    maxCombo: number;
+    date: string;
+    lineResults: LineResult[];
+    durationMs?: number;
+    settings: RunSettings | null;
+    stats: GameStats | null;
+    typingStats: TypingStats | null;
+}
+
+export interface ErrorCounts {
+    attempts: number;
+    misses: number;
+}
+
+export interface RunErrorCounts {
+    characters: Record<string, ErrorCounts>;
+    bigrams: Record<string, ErrorCounts>;
+}
+
+export interface ErrorStatsEntry extends RunErrorCounts {
+    songId: string;
+    trackName: string;
+    artistName: string;
+    difficulty: Difficulty;
+    runs: number;
+    updatedAt: string;
+}
+
 export type AudioSource =
     | { type: 'youtube'; videoId: string; url?: string }
     | { type: 'file'; file: File; url: string };
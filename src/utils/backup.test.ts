@@ -0,0 +1,224 @@
+// @vitest-environment jsdom
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { RunLog, RunRecord, RunSettings } from '../types';
+import { BACKUP_FORMAT, BACKUP_VERSION, applyBackup, parseBackup, previewBackup } from './backup';
+import type { ProfileBackup } from './backup';
+import { addRuns, queryRuns, replaceRuns } from './history';
+import { STORAGE_SCHEMA_VERSION, getStoredProfileData, saveStoredProfileData } from './storage';
+
+vi.mock('./history', async importOriginal => ({
+    ...await importOriginal<typeof import('./history')>(),
+    addRuns: vi.fn(),
+    queryRuns: vi.fn(),
+    replaceRuns: vi.fn(),
+}));
+
+const RUN_SETTINGS: RunSettings = {
+    playbackRate: 1,
+    lyricsOffset: 0,
+    preRollMs: 0,
+    typingMode: 'normal',
+    scriptMode: 'original',
+    selectedVoice: null,
+    looped: false,
+};
+
+function createRun(overrides: Partial<RunRecord> = {}): RunRecord {
+    return {
+        profileId: 'default',
+        songId: '1',
+        trackName: 'Track',
+        artistName: 'Artist',
+        difficulty: 'medium',
+        score: 1000,
+        accuracy: 0.9,
+        maxCombo: 3,
+        date: '2026-01-01T00:00:00.000Z',
+        lineResults: [],
+        settings: null,
+        stats: null,
+        typingStats: null,
+        ...overrides,
+    };
+}
+
+function createRunLog(finalScore: number): RunLog {
+    return {
+        version: 2,
+        songId: '1',
+        difficulty: 'medium',
+        romanized: false,
+        lyricsOffset: 0,
+        preRollMs: 0,
+        selectedVoice: null,
+        startedAt: '2026-01-01T00:00:00.000Z',
+        events: [],
+        submissions: [],
+        finalScore,
+    };
+}
+
+function createBackup(overrides: Partial<ProfileBackup> = {}): ProfileBackup {
+    return {
+        format: BACKUP_FORMAT,
+        version: BACKUP_VERSION,
+        schemaVersion: 1,
+        exportedAt: '2026-02-01T00:00:00.000Z',
+        ...getStoredProfileData(),
+        runs: [],
+        ...overrides,
+    };
+}
+
+function createLyrics(lrc: string) {
+    return { songId: '1', trackName: 'Track', artistName: 'Artist', lrc, updatedAt: '2026-01-01T00:00:00.000Z' };
+}
+
+beforeEach(() => {
+    localStorage.clear();
+    vi.mocked(addRuns).mockReset();
+    vi.mocked(replaceRuns).mockReset();
+    vi.mocked(queryRuns).mockReset().mockResolvedValue([]);
+});
+
+describe('parseBackup', () => {
+    it('rejects files that are not backups', () => {
+        expect(() => parseBackup('{')).toThrow('The file is not valid JSON.');
+        expect(() => parseBackup('{"format":"other"}')).toThrow('The file is not a Lyric Karaoke backup.');
+        expect(() => parseBackup(JSON.stringify({ format: BACKUP_FORMAT, version: BACKUP_VERSION + 1 })))
+            .toThrow(`Backup version ${BACKUP_VERSION + 1} is newer than this app supports.`);
+    });
+
+    it('rejects newer or unknown schema versions', () => {
+        const parse = (schemaVersion: unknown) => parseBackup(JSON.stringify({ format: BACKUP_FORMAT, version: BACKUP_VERSION, schemaVersion }));
+
+        expect(() => parse(STORAGE_SCHEMA_VERSION + 1))
+            .toThrow(`Backup schema version ${STORAGE_SCHEMA_VERSION + 1} is not supported by this app.`);
+        expect(() => parse('1')).toThrow('Backup schema version 1 is not supported by this app.');
+        expect(() => parse(undefined)).toThrow('Backup schema version undefined is not supported by this app.');
+        expect(() => parse(STORAGE_SCHEMA_VERSION)).not.toThrow();
+    });
+
+    it('drops invalid records and counts them', () => {
+        const { backup, skippedRecords } = parseBackup(JSON.stringify({
+            format: BACKUP_FORMAT,
+            version: BACKUP_VERSION,
+            schemaVersion: 1,
+            exportedAt: '2026-02-01T00:00:00.000Z',
+            settings: { volume: 0.3, showUpcoming: 'yes' },
+            runs: [{ ...createRun(), id: 7 }, { songId: '2' }],
+            customLyrics: { 1: createLyrics('[00:01.00]Hi'), 2: { lrc: 5 } },
+            songOffsets: { 1: 150, 2: 'late' },
+            bestRuns: { '1-medium': createRunLog(100) },
+        }));
+
+        expect(backup.runs).toEqual([createRun()]);
+        expect(Object.keys(backup.customLyrics)).toEqual(['1']);
+        expect(backup.songOffsets).toEqual({ 1: 150 });
+        expect(backup.settings).toMatchObject({ volume: 0.3, showUpcoming: true });
+        expect(backup.errorStats).toEqual([]);
+        expect(skippedRecords).toBe(4);
+    });
+});
+
+describe('previewBackup', () => {
+    it('classifies incoming runs against the stored history', async () => {
+        vi.mocked(queryRuns).mockResolvedValue([
+            createRun({ id: 1 }),
+            createRun({ id: 2, score: 2000, settings: RUN_SETTINGS }),
+        ]);
+        saveStoredProfileData({ ...getStoredProfileData(), customLyrics: { 1: createLyrics('old') } });
+
+        const preview = await previewBackup(createBackup({
+            runs: [createRun(), createRun({ score: 2000 }), createRun({ score: 3000 })],
+            customLyrics: { 1: createLyrics('new'), 2: createLyrics('other') },
+        }), 2);
+
+        expect(preview).toMatchObject({
+            runs: 3,
+            newRuns: 1,
+            duplicateRuns: 1,
+            conflictingRuns: 1,
+            customLyrics: 2,
+            conflictingLyrics: 1,
+            skippedRecords: 2,
+        });
+    });
+});
+
+describe('applyBackup', () => {
+    const conflicting = createRun({ score: 2000 });
+    const existing = [createRun({ id: 1 }), { ...conflicting, id: 2, settings: RUN_SETTINGS }];
+
+    beforeEach(() => {
+        vi.mocked(queryRuns).mockResolvedValue(existing);
+        saveStoredProfileData({
+            ...getStoredProfileData(),
+            customLyrics: { 1: createLyrics('mine') },
+            songOffsets: { 1: 100 },
+            bestRuns: { '1-medium': createRunLog(500), '1-hard': createRunLog(900) },
+        });
+    });
+
+    function createIncoming(): ProfileBackup {
+        return createBackup({
+            settings: { ...getStoredProfileData().settings, volume: 0.2 },
+            runs: [createRun(), conflicting, createRun({ score: 3000 })],
+            customLyrics: { 1: createLyrics('theirs'), 2: createLyrics('new') },
+            songOffsets: { 1: -100, 2: 50 },
+            bestRuns: { '1-medium': createRunLog(800), '1-hard': createRunLog(100) },
+        });
+    }
+
+    it('keeps existing data on conflicts when merging', async () => {
+        await applyBackup(createIncoming(), 'merge', 'keep-existing');
+
+        expect(addRuns).toHaveBeenCalledWith([createRun({ score: 3000 })]);
+        const stored = getStoredProfileData();
+        expect(stored.settings.volume).toBe(0.7);
+        expect(stored.customLyrics[1].lrc).toBe('mine');
+        expect(stored.customLyrics[2].lrc).toBe('new');
+        expect(stored.songOffsets).toEqual({ 1: 100, 2: 50 });
+        expect(stored.bestRuns['1-medium'].finalScore).toBe(800);
+        expect(stored.bestRuns['1-hard'].finalScore).toBe(900);
+    });
+
+    it('overwrites conflicts with the backup when preferred', async () => {
+        await applyBackup(createIncoming(), 'merge', 'prefer-backup');
+
+        expect(addRuns).toHaveBeenCalledWith([{ ...conflicting, id: 2 }, createRun({ score: 3000 })]);
+        const stored = getStoredProfileData();
+        expect(stored.settings.volume).toBe(0.2);
+        expect(stored.customLyrics[1].lrc).toBe('theirs');
+        expect(stored.songOffsets).toEqual({ 1: -100, 2: 50 });
+    });
+
+    it('replaces the run history and per-profile data', async () => {
+        await applyBackup(createIncoming(), 'replace', 'keep-existing');
+
+        expect(replaceRuns).toHaveBeenCalledWith('default', createIncoming().runs);
+        expect(addRuns).not.toHaveBeenCalled();
+        const stored = getStoredProfileData();
+        expect(stored.bestRuns['1-hard'].finalScore).toBe(100);
+        expect(stored.customLyrics[1].lrc).toBe('mine');
+    });
+
+    it('checks the whole backup before writing anything', async () => {
+        const before = getStoredProfileData();
+        const backup = { ...createIncoming(), runs: [createRun(), { songId: '2' } as RunRecord] };
+
+        await expect(applyBackup(backup, 'replace', 'keep-existing')).rejects.toThrow('The backup contains records that cannot be restored.');
+        await expect(applyBackup({ ...createIncoming(), schemaVersion: 99 }, 'merge', 'keep-existing')).rejects.toThrow();
+        expect(replaceRuns).not.toHaveBeenCalled();
+        expect(addRuns).not.toHaveBeenCalled();
+        expect(getStoredProfileData()).toEqual(before);
+    });
+
+    it('restores the stored data when replacing the run history fails', async () => {
+        const before = getStoredProfileData();
+        vi.mocked(replaceRuns).mockRejectedValue(new Error('quota'));
+
+        await expect(applyBackup(createIncoming(), 'replace', 'keep-existing')).rejects.toThrow('quota');
+        expect(getStoredProfileData()).toEqual(before);
+    });
+});
@@ -0,0 +1,274 @@
+import type { RunRecord } from '../types';
+import { addRuns, queryRuns, replaceRuns } from './history';
+import { getActiveProfileId } from './profiles';
+import { getStoredProfileData, saveStoredProfileData, STORAGE_SCHEMA_VERSION, type StoredProfileData } from './storage';
+import {
+    getStorageVersion,
+    isCustomLyricsRecord,
+    isDifficultySettingsRecord,
+    isErrorStatsRecord,
+    isPracticeRecord,
+    isRunLogRecord,
+    isRunRecord,
+    isObject,
+    isSongOffsetRecord,
+    sanitizeObject,
+} from './storageSchema';
+
+export type BackupImportMode = 'merge' | 'replace';
+export type BackupConflictStrategy = 'keep-existing' | 'prefer-backup';
+
+export interface ProfileBackup extends StoredProfileData {
+    format: typeof BACKUP_FORMAT;
+    version: number;
+    schemaVersion: number;
+    exportedAt: string;
+    runs: RunRecord[];
+}
+
+export interface BackupPreview {
+    exportedAt: string;
+    runs: number;
+    newRuns: number;
+    duplicateRuns: number;
+    conflictingRuns: number;
+    customLyrics: number;
+    conflictingLyrics: number;
+    songOffsets: number;
+    bestRuns: number;
+    skippedRecords: number;
+}
+
+export const BACKUP_FORMAT = 'lyric-karaoke-backup';
+export const BACKUP_VERSION = 1;
+
+
+function getRunKey(run: RunRecord): string {
+    return `${run.songId}|${run.difficulty}|${run.date}|${run.score}`;
+}
+
+
+function isSameRun(a: RunRecord, b: RunRecord): boolean {
+    return a.songId === b.songId &&
+        a.date === b.date &&
+        a.score === b.score &&
+        a.lineResults.length === b.lineResults.length &&
+        JSON.stringify(a.settings) === JSON.stringify(b.settings);
+}
+
+
+function withoutId(run: RunRecord): RunRecord {
+    const copy = { ...run };
+    delete copy.id;
+    return copy;
+}
+
+
+export async function createBackup(): Promise<ProfileBackup> {
+    const runs = await queryRuns({ profileId: getActiveProfileId() });
+    return {
+        format: BACKUP_FORMAT,
+        version: BACKUP_VERSION,
+        schemaVersion: getStorageVersion(),
+        exportedAt: new Date().toISOString(),
+        ...getStoredProfileData(),
+        runs: runs.map(withoutId),
+    };
+}
+
+
+export function getBackupFileName(backup: ProfileBackup): string {
+    return `lyric-karaoke-backup-${backup.exportedAt.slice(0, 10)}.json`;
+}
+
+
+function checkSchemaVersion(schemaVersion: unknown): void {
+    if (typeof schemaVersion !== 'number' || !Number.isInteger(schemaVersion) || schemaVersion < 0 || schemaVersion > STORAGE_SCHEMA_VERSION) {
+        throw new Error(`Backup schema version ${schemaVersion} is not supported by this app.`);
+    }
+}
+
+
+function checkBackup(backup: ProfileBackup): void {
+    checkSchemaVersion(backup.schemaVersion);
+
+    const isValid = backup.runs.every(isRunRecord) &&
+        Object.values(backup.customLyrics).every(isCustomLyricsRecord) &&
+        Object.values(backup.songOffsets).every(isSongOffsetRecord) &&
+        Object.values(backup.bestRuns).every(isRunLogRecord) &&
+        backup.errorStats.every(isErrorStatsRecord) &&
+        backup.practice.every(isPracticeRecord) &&
+        Object.values(backup.difficultyProfiles).every(isDifficultySettingsRecord) &&
+        isObject(backup.settings);
+    if (!isValid) {
+        throw new Error('The backup contains records that cannot be restored.');
+    }
+}
+
+
+function filterRecords<T>(records: Record<string, unknown>, isValid: (value: unknown) => value is T): [Record<string, T>, number] {
+    const entries = Object.entries(records ?? {});
+    const valid = entries.filter((entry): entry is [string, T] => isValid(entry[1]));
+    return [Object.fromEntries(valid), entries.length - valid.length];
+}
+
+
+function filterList<T>(records: unknown[], isValid: (value: unknown) => value is T): [T[], number] {
+    const list = Array.isArray(records) ? records : [];
+    const valid = list.filter(isValid);
+    return [valid, list.length - valid.length];
+}
+
+
+export function parseBackup(text: string): { backup: ProfileBackup; skippedRecords: number } {
+    let data: ProfileBackup;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new Error('The file is not valid JSON.');
+    }
+
+    if (typeof data !== 'object' || data === null || data.format !== BACKUP_FORMAT) {
+        throw new Error('The file is not a Lyric Karaoke backup.');
+    }
+    if (typeof data.version !== 'number' || data.version > BACKUP_VERSION) {
+        throw new Error(`Backup version ${data.version} is newer than this app supports.`);
+    }
+    checkSchemaVersion(data.schemaVersion);
+
+    const [runs, skippedRuns] = filterList(data.runs, isRunRecord);
+    const [customLyrics, skippedLyrics] = filterRecords(data.customLyrics, isCustomLyricsRecord);
+    const [songOffsets, skippedOffsets] = filterRecords(data.songOffsets, isSongOffsetRecord);
+    const [bestRuns, skippedBestRuns] = filterRecords(data.bestRuns, isRunLogRecord);
+    const [errorStats, skippedErrorStats] = filterList(data.errorStats, isErrorStatsRecord);
+    const [practice, skippedPractice] = filterList(data.practice, isPracticeRecord);
+    const [difficultyProfiles, skippedProfiles] = filterRecords(data.difficultyProfiles, isDifficultySettingsRecord);
+    const current = getStoredProfileData();
+    const settings = isObject(data.settings)
+        ? sanitizeObject(data.settings, current.settings)
+        : { result: current.settings, invalidFields: data.settings === undefined ? [] : ['settings'] };
+
+    return {
+        backup: {
+            format: BACKUP_FORMAT,
+            version: data.version,
+            schemaVersion: data.schemaVersion,
+            exportedAt: String(data.exportedAt),
+            settings: settings.result,
+            onboardingSeen: data.onboardingSeen === true,
+            runs: runs.map(withoutId),
+            customLyrics,
+            songOffsets,
+            bestRuns,
+            errorStats,
+            practice,
+            difficultyProfiles,
+        },
+        skippedRecords: settings.invalidFields.length + skippedRuns + skippedLyrics + skippedOffsets + skippedBestRuns + skippedErrorStats + skippedPractice + skippedProfiles,
+    };
+}
+
+
+export async function previewBackup(backup: ProfileBackup, skippedRecords = 0): Promise<BackupPreview> {
+    const existing = new Map((await queryRuns({ profileId: getActiveProfileId() })).map(run => [getRunKey(run), run]));
+    const current = getStoredProfileData();
+
+    let duplicateRuns = 0;
+    let conflictingRuns = 0;
+    for (const run of backup.runs) {
+        const match = existing.get(getRunKey(run));
+        if (!match) continue;
+        if (isSameRun(match, run)) {
+            duplicateRuns++;
+        } else {
+            conflictingRuns++;
+        }
+    }
+
+    return {
+        exportedAt: backup.exportedAt,
+        runs: backup.runs.length,
+        newRuns: backup.runs.length - duplicateRuns - conflictingRuns,
+        duplicateRuns,
+        conflictingRuns,
+        customLyrics: Object.keys(backup.customLyrics).length,
+        conflictingLyrics: Object.entries(backup.customLyrics)
+            .filter(([songId, entry]) => current.customLyrics[songId] && current.customLyrics[songId].lrc !== entry.lrc)
+            .length,
+        songOffsets: Object.keys(backup.songOffsets).length,
+        bestRuns: Object.keys(backup.bestRuns).length,
+        skippedRecords,
+    };
+}
+
+
+function mergeRecords<T>(current: Record<string, T>, incoming: Record<string, T>, preferIncoming: boolean): Record<string, T> {
+    return preferIncoming ? { ...current, ...incoming } : { ...incoming, ...current };
+}
+
+
+function mergeSharedData(current: StoredProfileData, backup: ProfileBackup, preferBackup: boolean): Pick<StoredProfileData, 'onboardingSeen' | 'customLyrics' | 'songOffsets' | 'difficultyProfiles'> {
+    return {
+        onboardingSeen: current.onboardingSeen || backup.onboardingSeen,
+        customLyrics: mergeRecords(current.customLyrics, backup.customLyrics, preferBackup),
+        songOffsets: mergeRecords(current.songOffsets, backup.songOffsets, preferBackup),
+        difficultyProfiles: { ...backup.difficultyProfiles, ...current.difficultyProfiles },
+    };
+}
+
+
+export async function applyBackup(backup: ProfileBackup, mode: BackupImportMode, conflicts: BackupConflictStrategy): Promise<void> {
+    const profileId = getActiveProfileId();
+    const incoming = backup.runs.map(run => ({ ...run, profileId }));
+    const preferBackup = conflicts === 'prefer-backup';
+    const current = getStoredProfileData();
+    checkBackup(backup);
+
+    if (mode === 'replace') {
+        try {
+            saveStoredProfileData({
+                settings: backup.settings,
+                bestRuns: backup.bestRuns,
+                errorStats: backup.errorStats,
+                practice: backup.practice,
+                ...mergeSharedData(current, backup, preferBackup),
+            });
+            await replaceRuns(profileId, incoming);
+        } catch (error) {
+            saveStoredProfileData(current);
+            throw error;
+        }
+        return;
+    }
+
+    const existing = new Map((await queryRuns({ profileId })).map(run => [getRunKey(run), run]));
+    const runs = incoming.flatMap(run => {
+        const match = existing.get(getRunKey(run));
+        if (!match) return [run];
+        if (isSameRun(match, run) || !preferBackup) return [];
+        return [{ ...run, id: match.id }];
+    });
+    await addRuns(runs);
+
+    const bestRuns = { ...current.bestRuns };
+    for (const [key, runLog] of Object.entries(backup.bestRuns)) {
+        if (!bestRuns[key] || (runLog.finalScore ?? 0) > (bestRuns[key].finalScore ?? 0)) {
+            bestRuns[key] = runLog;
+        }
+    }
+
+    const practiceKeys = new Set(current.practice.map(r => `${r.songId}|${r.date}`));
+
+    saveStoredProfileData({
+        settings: preferBackup ? backup.settings : current.settings,
+        bestRuns,
+        errorStats: Object.values(mergeRecords(
+            Object.fromEntries(current.errorStats.map(e => [`${e.songId}-${e.difficulty}`, e])),
+            Object.fromEntries(backup.errorStats.map(e => [`${e.songId}-${e.difficulty}`, e])),
+            preferBackup
+        )),
+        practice: [...current.practice, ...backup.practice.filter(r => !practiceKeys.has(`${r.songId}|${r.date}`))]
+            .sort((a, b) => b.date.localeCompare(a.date)),
+        ...mergeSharedData(current, backup, preferBackup),
+    });
+}
@@ -0,0 +1,98 @@
+// @vitest-environment jsdom
+import { beforeEach, describe, expect, it } from 'vitest';
+import { DIFFICULTY_SETTINGS } from '../types';
+import {
+    clampDifficultySettings,
+    decodeDifficultyProfile,
+    encodeDifficultyProfile,
+    findDifficultySettings,
+    getDifficultySettings,
+    findDifficultyProfileId,
+    saveDifficultyProfile,
+    validateDifficultySettings,
+} from './difficulty';
+
+const custom = {
+    ...DIFFICULTY_SETTINGS.hard,
+    name: 'Sprint ⚡',
+    description: 'Très rapide',
+    perfectWindow: 100,
+};
+
+beforeEach(() => {
+    localStorage.clear();
+});
+
+describe('difficulty share strings', () => {
+    it('round-trips a profile including non-ASCII text', () => {
+        const share = encodeDifficultyProfile(custom);
+
+        expect(share.startsWith('LKD1.')).toBe(true);
+        expect(decodeDifficultyProfile(`  ${share}\n`)).toEqual(custom);
+    });
+
+    it('rejects malformed or out-of-range share strings', () => {
+        const encode = (payload: unknown) => `LKD1.${btoa(JSON.stringify(payload))}`;
+
+        expect(decodeDifficultyProfile('hello')).toBeNull();
+        expect(decodeDifficultyProfile('LKD1.!!!')).toBeNull();
+        expect(decodeDifficultyProfile(encode(['Too short', '', 1]))).toBeNull();
+        expect(decodeDifficultyProfile(encodeDifficultyProfile({ ...custom, comboMultiplier: 3 }))).toBeNull();
+    });
+});
+
+describe('validateDifficultySettings', () => {
+    it('accepts the built-in profiles', () => {
+        for (const settings of Object.values(DIFFICULTY_SETTINGS)) {
+            expect(validateDifficultySettings(settings)).toBeNull();
+        }
+    });
+
+    it('explains the first broken rule', () => {
+        expect(validateDifficultySettings({ ...custom, name: ' ' })).toBe('Give the profile a name.');
+        expect(validateDifficultySettings({ ...custom, goodWindow: NaN })).toBe('Every rule needs a number.');
+        expect(validateDifficultySettings({ ...custom, perfectWindow: 500, goodWindow: 400 }))
+            .toBe('The perfect window cannot be wider than the good window.');
+        expect(validateDifficultySettings({ ...custom, latePenalty: 1.5 })).toBe('Penalty multipliers must be between 0 and 1.');
+    });
+});
+
+describe('clampDifficultySettings', () => {
+    it('pulls every rule into its allowed range', () => {
+        const clamped = clampDifficultySettings({ ...custom, goodWindow: 9000, latePenalty: -1, comboMultiplier: 0.5 });
+
+        expect(clamped).toEqual({ ...custom, goodWindow: 5000, latePenalty: 0, comboMultiplier: 1 });
+        expect(validateDifficultySettings(clamped)).toBeNull();
+    });
+
+    it('leaves missing numbers for validation to reject', () => {
+        expect(validateDifficultySettings(clampDifficultySettings({ ...custom, perfectWindow: NaN })))
+            .toBe('Every rule needs a number.');
+    });
+});
+
+describe('custom profiles', () => {
+    it('keeps a profile id when its rules are edited', () => {
+        const id = saveDifficultyProfile(custom);
+        const edited = { ...custom, goodWindow: 401 };
+
+        expect(saveDifficultyProfile(edited, id)).toBe(id);
+        expect(findDifficultySettings(id)).toEqual(edited);
+        expect(saveDifficultyProfile(custom)).not.toBe(id);
+    });
+
+    it('finds an existing profile by its rules rather than its name', () => {
+        const id = saveDifficultyProfile(custom);
+
+        expect(findDifficultyProfileId({ ...custom, name: 'Renamed' })).toBe(id);
+        expect(findDifficultyProfileId({ ...custom, goodWindow: 401 })).toBeNull();
+    });
+
+    it('resolves saved profiles and falls back for unknown ones', () => {
+        const id = saveDifficultyProfile(custom);
+
+        expect(findDifficultySettings(id)).toEqual(custom);
+        expect(findDifficultySettings('custom-missing')).toBeNull();
+        expect(getDifficultySettings('custom-missing')).toBe(DIFFICULTY_SETTINGS.medium);
+    });
+});
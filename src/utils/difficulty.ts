@@ -0,0 +1,146 @@
+import { DIFFICULTY_SETTINGS } from '../types';
+import type { BuiltInDifficulty, Difficulty, DifficultySettings } from '../types';
+import { getCustomDifficultyProfiles, saveCustomDifficultyProfile } from './storage';
+
+export type DifficultyRule = Exclude<keyof DifficultySettings, 'name' | 'description'>;
+
+export const BUILT_IN_DIFFICULTIES: BuiltInDifficulty[] = ['easy', 'medium', 'hard'];
+
+export const DIFFICULTY_RULES: DifficultyRule[] = [
+    'perfectWindow',
+    'goodWindow',
+    'earlyPenalty',
+    'latePenalty',
+    'tooEarlyPenalty',
+    'tooLatePenalty',
+    'baseScoreMultiplier',
+    'comboMultiplier',
+    'perfectAccuracyThreshold',
+];
+
+const SHARE_PREFIX = 'LKD1.';
+const MAX_WINDOW_MS = 5000;
+const MAX_SCORE_MULTIPLIER = 5;
+const MAX_COMBO_MULTIPLIER = 2;
+
+const RULE_LIMITS: Record<DifficultyRule, [number, number]> = {
+    perfectWindow: [1, MAX_WINDOW_MS],
+    goodWindow: [1, MAX_WINDOW_MS],
+    earlyPenalty: [0, 1],
+    latePenalty: [0, 1],
+    tooEarlyPenalty: [0, 1],
+    tooLatePenalty: [0, 1],
+    baseScoreMultiplier: [0.1, MAX_SCORE_MULTIPLIER],
+    comboMultiplier: [1, MAX_COMBO_MULTIPLIER],
+    perfectAccuracyThreshold: [0.01, 1],
+};
+
+
+export function isBuiltInDifficulty(difficulty: Difficulty): difficulty is BuiltInDifficulty {
+    return (BUILT_IN_DIFFICULTIES as string[]).includes(difficulty);
+}
+
+
+export function hashDifficultyRules(settings: DifficultySettings): string {
+    const canonical = DIFFICULTY_RULES.map(rule => settings[rule]).join('|');
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < canonical.length; i++) {
+        hash ^= canonical.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+
+export function createProfileId(): Difficulty {
+    return `custom-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+}
+
+
+export function findDifficultyProfileId(settings: DifficultySettings): Difficulty | null {
+    const hash = hashDifficultyRules(settings);
+    const match = Object.entries(getCustomDifficultyProfiles()).find(([, profile]) => hashDifficultyRules(profile) === hash);
+    return match ? match[0] as Difficulty : null;
+}
+
+
+export function findDifficultySettings(difficulty: Difficulty): DifficultySettings | null {
+    if (isBuiltInDifficulty(difficulty)) return DIFFICULTY_SETTINGS[difficulty];
+    return getCustomDifficultyProfiles()[difficulty] ?? null;
+}
+
+
+export function getDifficultySettings(difficulty: Difficulty): DifficultySettings {
+    return findDifficultySettings(difficulty) ?? DIFFICULTY_SETTINGS.medium;
+}
+
+
+export function validateDifficultySettings(settings: DifficultySettings): string | null {
+    if (!settings.name.trim()) return 'Give the profile a name.';
+    if (DIFFICULTY_RULES.some(rule => typeof settings[rule] !== 'number' || !Number.isFinite(settings[rule]))) {
+        return 'Every rule needs a number.';
+    }
+    if (settings.perfectWindow <= 0 || settings.goodWindow > MAX_WINDOW_MS) {
+        return `Timing windows must be between 1 and ${MAX_WINDOW_MS}ms.`;
+    }
+    if (settings.perfectWindow > settings.goodWindow) return 'The perfect window cannot be wider than the good window.';
+
+    const penalties = [settings.earlyPenalty, settings.latePenalty, settings.tooEarlyPenalty, settings.tooLatePenalty];
+    if (penalties.some(p => p < 0 || p > 1)) return 'Penalty multipliers must be between 0 and 1.';
+    if (settings.baseScoreMultiplier <= 0 || settings.baseScoreMultiplier > MAX_SCORE_MULTIPLIER) {
+        return `The base score multiplier must be above 0 and at most ${MAX_SCORE_MULTIPLIER}.`;
+    }
+    if (settings.comboMultiplier < 1 || settings.comboMultiplier > MAX_COMBO_MULTIPLIER) {
+        return `The combo multiplier must be between 1 and ${MAX_COMBO_MULTIPLIER}.`;
+    }
+    if (settings.perfectAccuracyThreshold <= 0 || settings.perfectAccuracyThreshold > 1) {
+        return 'The perfect accuracy threshold must be above 0 and at most 1.';
+    }
+    return null;
+}
+
+
+export function clampDifficultySettings(settings: DifficultySettings): DifficultySettings {
+    const clamped = { ...settings };
+    for (const rule of DIFFICULTY_RULES) {
+        const [min, max] = RULE_LIMITS[rule];
+        clamped[rule] = Math.min(max, Math.max(min, settings[rule]));
+    }
+    return clamped;
+}
+
+
+export function encodeDifficultyProfile(settings: DifficultySettings): string {
+    const payload = JSON.stringify([settings.name, settings.description, ...DIFFICULTY_RULES.map(rule => settings[rule])]);
+    const bytes = new TextEncoder().encode(payload);
+    return SHARE_PREFIX + btoa(String.fromCharCode(...bytes));
+}
+
+
+export function decodeDifficultyProfile(share: string): DifficultySettings | null {
+    const trimmed = share.trim();
+    if (!trimmed.startsWith(SHARE_PREFIX)) return null;
+
+    try {
+        const binary = atob(trimmed.slice(SHARE_PREFIX.length));
+        const payload = JSON.parse(new TextDecoder().decode(Uint8Array.from(binary, c => c.charCodeAt(0))));
+        if (!Array.isArray(payload) || payload.length !== DIFFICULTY_RULES.length + 2) return null;
+
+        const [name, description, ...values] = payload;
+        const settings = {
+            name: String(name),
+            description: String(description),
+            ...Object.fromEntries(DIFFICULTY_RULES.map((rule, i) => [rule, Number(values[i])])),
+        } as DifficultySettings;
+
+        return validateDifficultySettings(settings) === null ? settings : null;
+    } catch {
+        return null;
+    }
+}
+
+
+export function saveDifficultyProfile(settings: DifficultySettings, id: Difficulty = createProfileId()): Difficulty {
+    saveCustomDifficultyProfile(id, settings);
+    return id;
+}
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import type { ErrorStatsEntry, KeystrokeEvent, RunLog } from '../types';
+import { parseLRC } from './lrcParser';
+import { collectErrorCounts, getMissRate, getWorstBigrams, mergeErrorCounts, summarizeErrorStats } from './errorAnalytics';
+
+function createLog(events: KeystrokeEvent[]): RunLog {
+    return {
+        version: 2,
+        songId: '1',
+        difficulty: 'medium',
+        romanized: false,
+        lyricsOffset: 0,
+        preRollMs: 0,
+        selectedVoice: null,
+        startedAt: '2026-01-01T00:00:00.000Z',
+        events,
+        submissions: [],
+    };
+}
+
+function createEntry(songId: string, difficulty: ErrorStatsEntry['difficulty'], misses: number): ErrorStatsEntry {
+    return {
+        songId,
+        trackName: `Track ${songId}`,
+        artistName: 'Artist',
+        difficulty,
+        runs: 1,
+        characters: { a: { attempts: 2, misses } },
+        bigrams: { ab: { attempts: 1, misses } },
+        updatedAt: '2026-01-01T00:00:00.000Z',
+    };
+}
+
+describe('collectErrorCounts', () => {
+    it('counts attempts and misses per expected character and bigram', () => {
+        const lyrics = parseLRC("[00:01.00]Ab, cd");
+        const counts = collectErrorCounts(createLog([
+            [1000, 0, 0, 'ax', 0],
+            [1100, 0, 1, 'b', 1],
+            [1200, 0, 0, ' cd', 1],
+        ]), lyrics);
+
+        expect(counts).toEqual({
+            characters: {
+                a: { attempts: 1, misses: 0 },
+                b: { attempts: 2, misses: 1 },
+                c: { attempts: 1, misses: 0 },
+                d: { attempts: 1, misses: 0 },
+            },
+            bigrams: {
+                ab: { attempts: 2, misses: 1 },
+                cd: { attempts: 1, misses: 0 },
+            },
+        });
+    });
+});
+
+describe('summarizeErrorStats', () => {
+    const entries = [
+        createEntry('1', 'medium', 1),
+        createEntry('1', 'hard', 2),
+        createEntry('2', 'medium', 0),
+    ];
+
+    it('merges every entry without a filter', () => {
+        expect(summarizeErrorStats(entries)).toEqual({
+            runs: 3,
+            characters: { a: { attempts: 6, misses: 3 } },
+            bigrams: { ab: { attempts: 3, misses: 3 } },
+        });
+    });
+
+    it('filters by song and difficulty', () => {
+        expect(summarizeErrorStats(entries, { songId: '1', difficulty: 'hard' }).characters).toEqual({
+            a: { attempts: 2, misses: 2 },
+        });
+        expect(summarizeErrorStats(entries, { songId: '3' })).toEqual({ runs: 0, characters: {}, bigrams: {} });
+    });
+
+    it('does not mutate the merge target', () => {
+        const target = { a: { attempts: 1, misses: 1 } };
+        mergeErrorCounts(target, { a: { attempts: 1, misses: 0 } });
+        expect(target).toEqual({ a: { attempts: 1, misses: 1 } });
+    });
+});
+
+describe('getWorstBigrams', () => {
+    it('ranks missed bigrams by miss rate among those with enough attempts', () => {
+        const bigrams = {
+            th: { attempts: 10, misses: 2 },
+            he: { attempts: 4, misses: 2 },
+            in: { attempts: 2, misses: 2 },
+            an: { attempts: 5, misses: 0 },
+            er: { attempts: 8, misses: 4 },
+        };
+
+        expect(getWorstBigrams(bigrams).map(([bigram]) => bigram)).toEqual(['er', 'he', 'th']);
+        expect(getWorstBigrams(bigrams, 1)).toEqual([['er', { attempts: 8, misses: 4 }]]);
+        expect(getMissRate(undefined)).toBe(0);
+    });
+});
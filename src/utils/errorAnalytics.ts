@@ -0,0 +1,98 @@
+import type { Difficulty, ErrorCounts, ErrorStatsEntry, ParsedLyrics, RunErrorCounts, RunLog } from '../types';
+import { alignTypedToExpected, toTypingText } from './normalization';
+import { applyKeystrokeEvent } from './runLog';
+
+export interface ErrorStatsFilter {
+    songId?: string;
+    difficulty?: Difficulty;
+}
+
+export interface ErrorSummary extends RunErrorCounts {
+    runs: number;
+}
+
+export const KEYBOARD_ROWS = [
+    ['`', '1', '2', '3', '4', '5', '6', '7', '8', '9', '0', '-', '='],
+    ['q', 'w', 'e', 'r', 't', 'y', 'u', 'i', 'o', 'p', '[', ']'],
+    ['a', 's', 'd', 'f', 'g', 'h', 'j', 'k', 'l', ';', "'"],
+    ['z', 'x', 'c', 'v', 'b', 'n', 'm', ',', '.', '/'],
+];
+
+
+function addCount(counts: Record<string, ErrorCounts>, key: string, attempts: number, misses: number): void {
+    const current = counts[key] ?? { attempts: 0, misses: 0 };
+    counts[key] = { attempts: current.attempts + attempts, misses: current.misses + misses };
+}
+
+
+export function collectErrorCounts(runLog: RunLog, lyrics: ParsedLyrics): RunErrorCounts {
+    const characters: Record<string, ErrorCounts> = {};
+    const bigrams: Record<string, ErrorCounts> = {};
+    const texts = new Map<number, string>();
+
+    for (const event of runLog.events) {
+        const [, lineIndex, deleted] = event;
+        const line = lyrics.lines[lineIndex];
+        if (!line) continue;
+
+        const expected = toTypingText(line.text, runLog.romanized).toLowerCase();
+        const previous = texts.get(lineIndex) ?? '';
+        const kept = Math.max(0, previous.length - deleted);
+        const text = applyKeystrokeEvent(previous, event);
+        texts.set(lineIndex, text);
+
+        const alignment = alignTypedToExpected(text, expected);
+        for (let i = kept; i < text.length; i++) {
+            const expectedIdx = alignment[i];
+            const expectedChar = expected[expectedIdx];
+            if (expectedIdx < 0 || expectedChar === undefined || /\s/.test(expectedChar)) continue;
+
+            const missed = text[i].toLowerCase() !== expectedChar ? 1 : 0;
+            addCount(characters, expectedChar, 1, missed);
+
+            const previousChar = i > 0 && alignment[i - 1] >= 0 ? expected[alignment[i - 1]] : undefined;
+            if (previousChar && !/\s/.test(previousChar)) {
+                addCount(bigrams, previousChar + expectedChar, 1, missed);
+            }
+        }
+    }
+
+    return { characters, bigrams };
+}
+
+
+export function mergeErrorCounts(target: Record<string, ErrorCounts>, source: Record<string, ErrorCounts>): Record<string, ErrorCounts> {
+    const merged = { ...target };
+    for (const [key, counts] of Object.entries(source)) {
+        addCount(merged, key, counts.attempts, counts.misses);
+    }
+    return merged;
+}
+
+
+export function summarizeErrorStats(entries: ErrorStatsEntry[], filter: ErrorStatsFilter = {}): ErrorSummary {
+    return entries
+        .filter(entry =>
+            (filter.songId === undefined || entry.songId === filter.songId) &&
+            (filter.difficulty === undefined || entry.difficulty === filter.difficulty)
+        )
+        .reduce<ErrorSummary>((summary, entry) => ({
+            runs: summary.runs + entry.runs,
+            characters: mergeErrorCounts(summary.characters, entry.characters),
+            bigrams: mergeErrorCounts(summary.bigrams, entry.bigrams),
+        }), { runs: 0, characters: {}, bigrams: {} });
+}
+
+
+export function getMissRate(counts: ErrorCounts | undefined): number {
+    if (!counts || counts.attempts === 0) return 0;
+    return counts.misses / counts.attempts;
+}
+
+
+export function getWorstBigrams(bigrams: Record<string, ErrorCounts>, limit = 15, minAttempts = 3): [string, ErrorCounts][] {
+    return Object.entries(bigrams)
+        .filter(([, counts]) => counts.misses > 0 && counts.attempts >= minAttempts)
+        .sort((a, b) => getMissRate(b[1]) - getMissRate(a[1]) || b[1].misses - a[1].misses)
+        .slice(0, limit);
+}
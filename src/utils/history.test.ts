@@ -0,0 +1,99 @@
+// @vitest-environment jsdom
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { RunRecord } from '../types';
+import { getQuarantinedRecords, getRepairCount } from './storageSchema';
+
+let history: typeof import('./history');
+
+function createRun(overrides: Partial<RunRecord> = {}): RunRecord {
+    return {
+        profileId: 'default',
+        songId: '1',
+        trackName: 'Track',
+        artistName: 'Artist',
+        difficulty: 'medium',
+        score: 1000,
+        accuracy: 0.9,
+        maxCombo: 3,
+        date: '2026-01-01T00:00:00.000Z',
+        lineResults: [],
+        settings: null,
+        stats: null,
+        typingStats: null,
+        ...overrides,
+    };
+}
+
+async function openRawStore(): Promise<IDBObjectStore> {
+    const db = await new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open('lyric-karaoke');
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+    return db.transaction('runs', 'readwrite').objectStore('runs');
+}
+
+beforeEach(async () => {
+    localStorage.clear();
+    globalThis.indexedDB = new IDBFactory();
+    vi.resetModules();
+    history = await import('./history');
+});
+
+describe('play history', () => {
+    it('stores runs and queries them by profile, song, difficulty and date', async () => {
+        await history.addRun(createRun({ date: '2026-01-03T00:00:00.000Z' }));
+        await history.addRun(createRun({ date: '2026-01-01T00:00:00.000Z', difficulty: 'hard' }));
+        await history.addRun(createRun({ songId: '2', profileId: 'other' }));
+
+        expect((await history.queryRuns()).map(run => run.date)).toEqual([
+            '2026-01-01T00:00:00.000Z',
+            '2026-01-01T00:00:00.000Z',
+            '2026-01-03T00:00:00.000Z',
+        ]);
+        expect(await history.queryRuns({ profileId: 'other' })).toHaveLength(1);
+        expect(await history.queryRuns({ songId: '1', difficulty: 'hard' })).toHaveLength(1);
+        expect(await history.queryRuns({ from: new Date('2026-01-02T00:00:00.000Z') })).toHaveLength(1);
+        expect(await history.queryRuns({ to: new Date('2026-01-02T00:00:00.000Z') })).toHaveLength(2);
+    });
+
+    it('replaces and clears only the given profile', async () => {
+        await history.addRuns([createRun(), createRun({ profileId: 'other' })]);
+
+        await history.replaceRuns('default', [createRun({ score: 1 }), createRun({ score: 2 })]);
+        expect((await history.queryRuns({ profileId: 'default' })).map(run => run.score)).toEqual([1, 2]);
+
+        await history.clearRuns('default');
+        expect(await history.queryRuns({ profileId: 'default' })).toEqual([]);
+        expect(await history.queryRuns({ profileId: 'other' })).toHaveLength(1);
+    });
+
+    it('quarantines stored runs that do not match the schema', async () => {
+        await history.addRun(createRun());
+        const store = await openRawStore();
+        store.put({ id: 99, songId: '1' });
+        await new Promise(resolve => { store.transaction.oncomplete = resolve; });
+
+        expect(await history.queryRuns()).toHaveLength(1);
+        expect(getQuarantinedRecords().map(record => record.key)).toEqual(['indexeddb/runs/99']);
+        expect(getRepairCount()).toBe(1);
+
+        await history.queryRuns();
+        expect(getQuarantinedRecords()).toHaveLength(1);
+    });
+
+    it('reduces runs to high scores', () => {
+        expect(history.toHighScore({ ...createRun(), id: 4 })).toEqual({
+            songId: '1',
+            trackName: 'Track',
+            artistName: 'Artist',
+            difficulty: 'medium',
+            score: 1000,
+            accuracy: 0.9,
+            maxCombo: 3,
+            date: '2026-01-01T00:00:00.000Z',
+        });
+    });
+});
@@ -0,0 +1,184 @@
+import type { Difficulty, HighScore, RunRecord } from '../types';
+import { DEFAULT_PROFILE_ID } from './profiles';
+import { isRunRecord, quarantineRecord } from './storageSchema';
+
+export interface HistoryQuery {
+    profileId?: string;
+    songId?: string;
+    difficulty?: Difficulty;
+    from?: Date;
+    to?: Date;
+}
+
+const DB_NAME = 'lyric-karaoke';
+const DB_VERSION = 2;
+const RUNS_STORE = 'runs';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+
+function transactionToPromise(transaction: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+}
+
+
+function assignDefaultProfile(store: IDBObjectStore): void {
+    store.createIndex('profileId', 'profileId');
+    const request = store.openCursor();
+    request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return;
+        if (!cursor.value.profileId) {
+            cursor.update({ ...cursor.value, profileId: DEFAULT_PROFILE_ID });
+        }
+        cursor.continue();
+    };
+}
+
+
+function openHistoryDb(): Promise<IDBDatabase> {
+    if (dbPromise) return dbPromise;
+
+    dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onupgradeneeded = (event) => {
+            const db = request.result;
+            if (!db.objectStoreNames.contains(RUNS_STORE)) {
+                const store = db.createObjectStore(RUNS_STORE, { keyPath: 'id', autoIncrement: true });
+                store.createIndex('songId', 'songId');
+                store.createIndex('difficulty', 'difficulty');
+                store.createIndex('date', 'date');
+            }
+            if (event.oldVersion < 2) {
+                assignDefaultProfile(request.transaction!.objectStore(RUNS_STORE));
+            }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+            dbPromise = null;
+            reject(request.error);
+        };
+    });
+
+    return dbPromise;
+}
+
+
+export async function addRun(run: RunRecord): Promise<number> {
+    const db = await openHistoryDb();
+    const store = db.transaction(RUNS_STORE, 'readwrite').objectStore(RUNS_STORE);
+    return await requestToPromise(store.add(run)) as number;
+}
+
+
+function quarantineRuns(db: IDBDatabase, runs: unknown[]): Promise<void> {
+    const transaction = db.transaction(RUNS_STORE, 'readwrite');
+    const store = transaction.objectStore(RUNS_STORE);
+    for (const run of runs) {
+        const id = (run as { id?: IDBValidKey } | null)?.id;
+        quarantineRecord(`indexeddb/${RUNS_STORE}/${String(id)}`, run, 'Run does not match the expected shape');
+        if (id !== undefined) store.delete(id);
+    }
+
+    return transactionToPromise(transaction);
+}
+
+
+export async function addRuns(runs: RunRecord[]): Promise<void> {
+    const db = await openHistoryDb();
+    const transaction = db.transaction(RUNS_STORE, 'readwrite');
+    const store = transaction.objectStore(RUNS_STORE);
+    for (const run of runs) {
+        store.put(run);
+    }
+
+    return transactionToPromise(transaction);
+}
+
+
+export async function replaceRuns(profileId: string, runs: RunRecord[]): Promise<void> {
+    const db = await openHistoryDb();
+    const transaction = db.transaction(RUNS_STORE, 'readwrite');
+    const store = transaction.objectStore(RUNS_STORE);
+    const request = store.index('profileId').getAllKeys(profileId);
+    request.onsuccess = () => {
+        for (const key of request.result) {
+            store.delete(key);
+        }
+        for (const run of runs) {
+            store.put(run);
+        }
+    };
+
+    return transactionToPromise(transaction);
+}
+
+
+export async function queryRuns(query: HistoryQuery = {}): Promise<RunRecord[]> {
+    const db = await openHistoryDb();
+    const store = db.transaction(RUNS_STORE, 'readonly').objectStore(RUNS_STORE);
+
+    const runs: unknown[] = query.songId !== undefined
+        ? await requestToPromise(store.index('songId').getAll(query.songId))
+        : query.profileId !== undefined
+            ? await requestToPromise(store.index('profileId').getAll(query.profileId))
+            : await requestToPromise(store.getAll());
+
+    const invalid = runs.filter(run => !isRunRecord(run));
+    if (invalid.length > 0) {
+        await quarantineRuns(db, invalid);
+    }
+
+    const from = query.from?.toISOString();
+    const to = query.to?.toISOString();
+
+    return runs
+        .filter(isRunRecord)
+        .filter(run =>
+            (query.profileId === undefined || run.profileId === query.profileId) &&
+            (query.difficulty === undefined || run.difficulty === query.difficulty) &&
+            (from === undefined || run.date >= from) &&
+            (to === undefined || run.date <= to)
+        )
+        .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+
+export async function clearRuns(profileId?: string): Promise<void> {
+    const db = await openHistoryDb();
+    const store = db.transaction(RUNS_STORE, 'readwrite').objectStore(RUNS_STORE);
+    if (profileId === undefined) {
+        await requestToPromise(store.clear());
+        return;
+    }
+
+    const keys = await requestToPromise(store.index('profileId').getAllKeys(profileId));
+    await Promise.all(keys.map(key => requestToPromise(store.delete(key))));
+}
+
+
+export function toHighScore(run: RunRecord): HighScore {
+    return {
+        songId: run.songId,
+        trackName: run.trackName,
+        artistName: run.artistName,
+        difficulty: run.difficulty,
+        score: run.score,
+        accuracy: run.accuracy,
+        maxCombo: run.maxCombo,
+        date: run.date,
+    };
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import type { LineResult } from '../types';
+import { parseLRC } from './lrcParser';
+import {
+    getLoopAccuracy,
+    getLoopBounds,
+    getRampedPlaybackRate,
+    isLineInLoop,
+    normalizeLoopRange,
+} from './loop';
+
+const { lines } = parseLRC('[00:05.00]M: One\n[00:10.00]F: Two\n[00:15.00]Three\n[00:20.00]Four');
+
+function createResult(lineIndex: number, characterAccuracy: number): LineResult {
+    return {
+        lineIndex,
+        typedText: '',
+        expectedText: '',
+        characterAccuracy,
+        timingResult: 'perfect',
+        timingScore: 1,
+        score: 0,
+        combo: 0,
+    };
+}
+
+describe('loop ranges', () => {
+    it('orders the selected lines', () => {
+        const range = normalizeLoopRange(2, 1);
+
+        expect(range).toEqual({ startLineIndex: 1, endLineIndex: 2 });
+        expect([0, 1, 2, 3].map(i => isLineInLoop(range, i))).toEqual([false, true, true, false]);
+    });
+
+    it('bounds the loop in audio time with a lead-in', () => {
+        expect(getLoopBounds(lines, { startLineIndex: 1, endLineIndex: 2 }, 200, 0)).toEqual({ start: 7800, end: 19800 });
+        expect(getLoopBounds(lines, { startLineIndex: 0, endLineIndex: 0 }, 0, 4000)).toEqual({ start: 0, end: 6000 });
+    });
+});
+
+describe('getLoopAccuracy', () => {
+    it('averages the lines of the selected part, counting unplayed lines as misses', () => {
+        const range = { startLineIndex: 0, endLineIndex: 2 };
+        const results = [createResult(0, 1), createResult(1, 0.5)];
+
+        expect(getLoopAccuracy(lines, range, results, null)).toBeCloseTo(0.5);
+        expect(getLoopAccuracy(lines, range, results, 'M')).toBeCloseTo(0.5);
+        expect(getLoopAccuracy(lines, { startLineIndex: 1, endLineIndex: 1 }, results, 'M')).toBeNull();
+    });
+});
+
+describe('getRampedPlaybackRate', () => {
+    it('speeds up after accurate passes until full speed', () => {
+        expect(getRampedPlaybackRate(0.7, 0.95)).toBe(0.8);
+        expect(getRampedPlaybackRate(0.7, 0.5)).toBe(0.7);
+        expect(getRampedPlaybackRate(0.95, 1)).toBe(1);
+        expect(getRampedPlaybackRate(1, 1)).toBe(1);
+    });
+});
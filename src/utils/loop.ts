@@ -0,0 +1,53 @@
+import type { LineResult, LoopRange, LyricLine } from '../types';
+import { isLineForVoice } from './lrcParser';
+
+export interface LoopBounds {
+    start: number;
+    end: number;
+}
+
+export const LOOP_LEAD_IN_MS = 2000;
+export const LOOP_END_TOLERANCE_MS = 1000;
+export const LOOP_RAMP_STEP = 0.1;
+export const LOOP_RAMP_TARGET_ACCURACY = 0.9;
+export const LOOP_RAMP_MAX_RATE = 1.0;
+
+
+export function normalizeLoopRange(a: number, b: number): LoopRange {
+    return { startLineIndex: Math.min(a, b), endLineIndex: Math.max(a, b) };
+}
+
+
+export function isLineInLoop(range: LoopRange, lineIndex: number): boolean {
+    return lineIndex >= range.startLineIndex && lineIndex <= range.endLineIndex;
+}
+
+
+export function getLoopBounds(lines: LyricLine[], range: LoopRange, lyricsOffset: number, preRollMs: number): LoopBounds {
+    const first = lines[range.startLineIndex];
+    const last = lines[range.endLineIndex];
+    return {
+        start: Math.max(0, first.time - lyricsOffset - preRollMs - LOOP_LEAD_IN_MS),
+        end: (last.endTime ?? last.time) - lyricsOffset - preRollMs,
+    };
+}
+
+
+export function getLoopAccuracy(lines: LyricLine[], range: LoopRange, results: LineResult[], selectedVoice: string | null): number | null {
+    let total = 0;
+    let count = 0;
+
+    for (let i = range.startLineIndex; i <= range.endLineIndex; i++) {
+        if (!lines[i] || !isLineForVoice(lines[i], selectedVoice)) continue;
+        total += results.find(r => r.lineIndex === i)?.characterAccuracy ?? 0;
+        count++;
+    }
+
+    return count > 0 ? total / count : null;
+}
+
+
+export function getRampedPlaybackRate(rate: number, accuracy: number): number {
+    if (accuracy < LOOP_RAMP_TARGET_ACCURACY || rate >= LOOP_RAMP_MAX_RATE) return rate;
+    return Math.min(LOOP_RAMP_MAX_RATE, Math.round((rate + LOOP_RAMP_STEP) * 100) / 100);
+}
@@ -0,0 +1,196 @@
+import { describe, expect, it } from 'vitest';
+import {
+    formatTimestamp,
+    getActiveBreak,
+    getInstrumentalBreaks,
+    getLineCloseTime,
+    getVoiceClass,
+    getVoices,
+    isLineForVoice,
+    parseLRC,
+    serializeLRC,
+} from './lrcParser';
+
+describe('parseLRC', () => {
+    it('reads standard metadata tags', () => {
+        const { metadata } = parseLRC([
+            '[ar:Artist]',
+            '[ti:Title]',
+            '[al:Album]',
+            '[by:Creator]',
+            '[re:Editor]',
+            '[ve:1.2]',
+            '[length:03:25]',
+            '[offset:+250]',
+            '[00:01.00]Hi',
+        ].join('\n'));
+
+        expect(metadata).toEqual({
+            artist: 'Artist',
+            title: 'Title',
+            album: 'Album',
+            creator: 'Creator',
+            editor: 'Editor',
+            editorVersion: '1.2',
+            duration: 205,
+            offset: 250,
+        });
+    });
+
+    it('ignores an offset that is not a number', () => {
+        expect(parseLRC('[offset:soon]\n[00:01.00]Hi').metadata.offset).toBeUndefined();
+    });
+
+    it('parses repeated timestamps and line end times', () => {
+        const { lines } = parseLRC('[00:05.00][00:20.50]Chorus\n[00:10.000]Verse');
+
+        expect(lines.map(line => [line.time, line.text, line.endTime])).toEqual([
+            [5000, 'Chorus', 10000],
+            [10000, 'Verse', 20500],
+            [20500, 'Chorus', 25500],
+        ]);
+    });
+
+    it('parses enhanced word timestamps', () => {
+        const { lines } = parseLRC('[00:01.00]<00:01.00>Hello <00:01.50>world<00:02.20>\n[00:04.00]Next');
+
+        expect(lines[0].text).toBe('Hello world');
+        expect(lines[0].words).toEqual([
+            { time: 1000, text: 'Hello ', endTime: 1500 },
+            { time: 1500, text: 'world', endTime: 2200 },
+        ]);
+        expect(lines[1].words).toBeUndefined();
+    });
+
+    it('ends the last word at the line end when it has no closing stamp', () => {
+        const { lines } = parseLRC('[00:01.00]<00:01.00>Hello <00:01.50>world\n[00:04.00]Next');
+
+        expect(lines[0].words?.[1]).toEqual({ time: 1500, text: 'world', endTime: 4000 });
+    });
+
+    it('shifts word timings for repeated line timestamps', () => {
+        const { lines } = parseLRC('[00:01.00][00:11.00]<00:01.00>Hey <00:01.50>you');
+
+        expect(lines[1].words?.map(word => word.time)).toEqual([11000, 11500]);
+    });
+
+    it('reads short and bracketed voice prefixes', () => {
+        const { lines } = parseLRC([
+            '[00:01.00]M: First',
+            '[00:02.00]F: Second',
+            '[00:03.00]v1: Third',
+            '[00:04.00][Lead Singer]: Fourth',
+            '[00:05.00]<00:05.00>D: <00:05.50>Together',
+        ].join('\n'));
+
+        expect(lines.map(line => [line.voice, line.text])).toEqual([
+            ['M', 'First'],
+            ['F', 'Second'],
+            ['v1', 'Third'],
+            ['Lead Singer', 'Fourth'],
+            ['D', 'Together'],
+        ]);
+        expect(lines[4].words).toEqual([{ time: 5500, text: 'Together', endTime: 10000 }]);
+    });
+
+    it('keeps lowercase words that look like voice tags', () => {
+        const { lines } = parseLRC('[00:01.00]m: is not a voice');
+
+        expect(lines[0].voice).toBeUndefined();
+        expect(lines[0].text).toBe('m: is not a voice');
+    });
+});
+
+describe('voices', () => {
+    const { lines } = parseLRC('[00:01.00]M: One\n[00:02.00]F: Two\n[00:03.00]D: Both\n[00:04.00]Plain');
+
+    it('lists voices in order of appearance', () => {
+        expect(getVoices(lines)).toEqual(['M', 'F', 'D']);
+    });
+
+    it('includes duet and unassigned lines for every part', () => {
+        expect(lines.filter(line => isLineForVoice(line, 'M')).map(line => line.text)).toEqual(['One', 'Both', 'Plain']);
+        expect(lines.filter(line => isLineForVoice(line, null))).toHaveLength(4);
+    });
+
+    it('colors voices by their order', () => {
+        expect(getVoiceClass(undefined, ['M', 'F'])).toBe('text-white');
+        expect(getVoiceClass('F', ['M', 'F'])).not.toBe(getVoiceClass('M', ['M', 'F']));
+    });
+});
+
+describe('instrumental breaks', () => {
+    it('finds an intro and gaps after the estimated end of singing', () => {
+        const { lines } = parseLRC('[00:12.00]Hi\n[00:15.00]There\n[00:40.00]Back');
+
+        expect(getInstrumentalBreaks(lines)).toEqual([
+            { afterLineIndex: -1, startTime: 0, endTime: 12000 },
+            { afterLineIndex: 1, startTime: 17000, endTime: 40000 },
+        ]);
+    });
+
+    it('estimates the end of singing from the last word stamp', () => {
+        const { lines } = parseLRC('[00:01.00]<00:01.00>Long <00:03.00>note\n[00:20.00]Next');
+
+        expect(getInstrumentalBreaks(lines)).toEqual([{ afterLineIndex: 0, startTime: 4000, endTime: 20000 }]);
+    });
+
+    it('ignores gaps shorter than the threshold', () => {
+        const { lines } = parseLRC('[00:01.00]Hi\n[00:08.00]There');
+
+        expect(getInstrumentalBreaks(lines)).toEqual([]);
+        expect(getInstrumentalBreaks([])).toEqual([]);
+    });
+
+    it('finds the break covering the current time', () => {
+        const breaks = [{ afterLineIndex: 0, startTime: 4000, endTime: 20000 }];
+
+        expect(getActiveBreak(breaks, 4000)).toBe(breaks[0]);
+        expect(getActiveBreak(breaks, 20000)).toBeNull();
+    });
+});
+
+describe('getLineCloseTime', () => {
+    it('closes a line at its end or the next line, whichever comes first', () => {
+        const lines = [
+            { time: 1000, text: 'One', endTime: 5000 },
+            { time: 4000, text: 'Two', endTime: 6000 },
+            { time: 9000, text: 'Three' },
+        ];
+
+        expect(getLineCloseTime(lines, 0)).toBe(4000);
+        expect(getLineCloseTime(lines, 1)).toBe(6000);
+        expect(getLineCloseTime(lines, 2)).toBe(Infinity);
+    });
+});
+
+describe('formatTimestamp', () => {
+    it('rounds to centiseconds and clamps negative times', () => {
+        expect(formatTimestamp(61234)).toBe('01:01.23');
+        expect(formatTimestamp(-500)).toBe('00:00.00');
+    });
+});
+
+describe('serializeLRC', () => {
+    it('round-trips metadata, word timings and voices', () => {
+        const source = [
+            '[ar:Artist]',
+            '[ti:Title]',
+            '[al:Album]',
+            '[by:Creator]',
+            '[re:Editor]',
+            '[ve:1.2]',
+            '[offset:-100]',
+            '[length:3:25]',
+            '[00:01.00]<00:01.00>Hello <00:01.50>world<00:02.20>',
+            '[00:03.00]Plain line',
+            '[00:05.00]M: Short voice',
+            '[00:07.00][Choir]: Long voice',
+        ].join('\n');
+
+        const lyrics = parseLRC(source);
+
+        expect(serializeLRC(lyrics)).toBe(source);
+        expect(parseLRC(serializeLRC(lyrics))).toEqual(lyrics);
+    });
+});
@@ -1,4 +1,73 @@
-import type { LyricLine, ParsedLyrics } from '../types';
+import type { InstrumentalBreak, LyricLine, LyricWord, ParsedLyrics } from '../types';
+
+const WORD_TIMESTAMP_REGEX = /<(\d{2}):(\d{2})\.(\d{2,3})>/g;
+const VOICE_PREFIX_REGEX = /^(\s*(?:<\d{2}:\d{2}\.\d{2,3}>)?\s*)(?:([vV]\d+|[MFD])|\[([^\]]+)\]):\s*/;
+const SHORT_VOICE_REGEX = /^([vV]\d+|[MFD])$/;
+
+export const DUET_VOICE = 'D';
+
+export const INSTRUMENTAL_BREAK_THRESHOLD_MS = 10000;
+const WORD_HOLD_MS = 1000;
+const MS_PER_SUNG_CHARACTER = 150;
+const MIN_SUNG_LINE_MS = 2000;
+
+const VOICE_CLASSES = [
+    'text-neon-blue',
+    'text-neon-purple',
+    'text-neon-green',
+    'text-amber-400',
+    'text-rose-400',
+];
+
+
+function toMilliseconds(minutes: string, seconds: string, fraction: string): number {
+    let milliseconds = parseInt(fraction);
+    if (fraction.length === 2) {
+        milliseconds *= 10;
+    }
+    return (parseInt(minutes) * 60 + parseInt(seconds)) * 1000 + milliseconds;
+}
+
+
+function parseWordTimings(content: string, lineTime: number): LyricWord[] | undefined {
+    const segments: { time: number; text: string }[] = [];
+    let cursor = 0;
+    let segmentTime = lineTime;
+    let match;
+
+    WORD_TIMESTAMP_REGEX.lastIndex = 0;
+    while ((match = WORD_TIMESTAMP_REGEX.exec(content)) !== null) {
+        segments.push({ time: segmentTime, text: content.slice(cursor, match.index) });
+        segmentTime = toMilliseconds(match[1], match[2], match[3]);
+        cursor = match.index + match[0].length;
+    }
+
+    if (segments.length === 0) return undefined;
+    segments.push({ time: segmentTime, text: content.slice(cursor) });
+
+    const words: LyricWord[] = [];
+    for (const segment of segments) {
+        const previous = words[words.length - 1];
+        if (!segment.text.trim()) {
+            if (previous) {
+                previous.text += segment.text;
+                previous.endTime = segment.time;
+            }
+            continue;
+        }
+        if (previous && previous.endTime === undefined) {
+            previous.endTime = segment.time;
+        }
+        words.push({ time: segment.time, text: segment.text });
+    }
+
+    if (words.length === 0) return undefined;
+
+    words[0].text = words[0].text.trimStart();
+    words[words.length - 1].text = words[words.length - 1].text.trimEnd();
+
+    return words;
+}
 
 
 export function parseLRC(lrcContent: string): ParsedLyrics {
@@ -7,7 +76,7 @@ export function parseLRC(lrcContent: string): ParsedLyrics {
 
     const lrcLines = lrcContent.split(/\r?\n/);
 
-    for (const line of lrcLines) {
+    for (const [sourceIndex, line] of lrcLines.entries()) {
         if (!line.trim()) continue;
 
         const metadataMatch = line.match(/^\[([a-z]+):(.+)\]$/i);
@@ -23,6 +92,23 @@ export function parseLRC(lrcContent: string): ParsedLyrics {
                 case 'al':
                     metadata.album = value.trim();
                     break;
+                case 'by':
+                    metadata.creator = value.trim();
+                    break;
+                case 're':
+                    metadata.editor = value.trim();
+                    break;
+                case 've':
+                    metadata.editorVersion = value.trim();
+                    break;
+                case 'offset':
+                    {
+                        const offset = parseInt(value.trim(), 10);
+                        if (!isNaN(offset)) {
+                            metadata.offset = offset;
+                        }
+                        break;
+                    }
                 case 'length':
                     {
                         const durationMatch = value.match(/(\d+):(\d+)/);
@@ -40,25 +126,35 @@ export function parseLRC(lrcContent: string): ParsedLyrics {
         let match;
 
         while ((match = timestampRegex.exec(line)) !== null) {
-            const minutes = parseInt(match[1]);
-            const seconds = parseInt(match[2]);
-            let milliseconds = parseInt(match[3]);
-            if (match[3].length === 2) {
-                milliseconds *= 10;
-            }
-
-            const timeMs = (minutes * 60 + seconds) * 1000 + milliseconds;
-            timestamps.push(timeMs);
+            timestamps.push(toMilliseconds(match[1], match[2], match[3]));
         }
 
-        const lyricsText = line.replace(timestampRegex, '').trim();
+        let content = line.replace(timestampRegex, '');
+        let voice: string | undefined;
+
+        const voiceMatch = content.match(VOICE_PREFIX_REGEX);
+        if (voiceMatch) {
+            voice = (voiceMatch[2] ?? voiceMatch[3]).trim();
+            content = voiceMatch[1] + content.slice(voiceMatch[0].length);
+        }
+        const lyricsText = content.replace(WORD_TIMESTAMP_REGEX, '').trim();
 
         if (!lyricsText) continue;
 
+        const words = timestamps.length > 0 ? parseWordTimings(content, timestamps[0]) : undefined;
+
         for (const time of timestamps) {
+            const shift = time - timestamps[0];
             lines.push({
                 time,
                 text: lyricsText,
+                words: words?.map(word => ({
+                    ...word,
+                    time: word.time + shift,
+                    endTime: word.endTime !== undefined ? word.endTime + shift : undefined,
+                })),
+                voice,
+                sourceLine: sourceIndex + 1,
             });
         }
     }
@@ -71,12 +167,40 @@ export function parseLRC(lrcContent: string): ParsedLyrics {
         } else {
             lines[i].endTime = lines[i].time + 5000;
         }
+
+        const words = lines[i].words;
+        if (words && words[words.length - 1].endTime === undefined) {
+            words[words.length - 1].endTime = lines[i].endTime;
+        }
     }
 
     return { lines, metadata };
 }
 
 
+export function getVoices(lines: LyricLine[]): string[] {
+    const voices: string[] = [];
+    for (const line of lines) {
+        if (line.voice && !voices.includes(line.voice)) {
+            voices.push(line.voice);
+        }
+    }
+    return voices;
+}
+
+
+export function isLineForVoice(line: LyricLine, selectedVoice: string | null): boolean {
+    return selectedVoice === null || !line.voice || line.voice === DUET_VOICE || line.voice === selectedVoice;
+}
+
+
+export function getVoiceClass(voice: string | undefined, voices: string[]): string {
+    if (!voice) return 'text-white';
+    const index = voices.indexOf(voice);
+    return VOICE_CLASSES[(index === -1 ? 0 : index) % VOICE_CLASSES.length];
+}
+
+
 export function getCurrentLineIndex(lines: LyricLine[], currentTimeMs: number): number {
     for (let i = lines.length - 1; i >= 0; i--) {
         if (currentTimeMs >= lines[i].time) {
@@ -87,6 +211,47 @@ export function getCurrentLineIndex(lines: LyricLine[], currentTimeMs: number):
 }
 
 
+export function getLineCloseTime(lines: LyricLine[], index: number): number {
+    const line = lines[index];
+    const next = lines[index + 1];
+    const end = line.endTime ?? next?.time ?? Infinity;
+    return next ? Math.min(end, next.time) : end;
+}
+
+
+function estimateSungEnd(line: LyricLine): number {
+    const estimate = line.words && line.words.length > 0
+        ? line.words[line.words.length - 1].time + WORD_HOLD_MS
+        : line.time + Math.max(MIN_SUNG_LINE_MS, line.text.length * MS_PER_SUNG_CHARACTER);
+    return line.endTime !== undefined ? Math.min(estimate, line.endTime) : estimate;
+}
+
+
+export function getInstrumentalBreaks(lines: LyricLine[], thresholdMs = INSTRUMENTAL_BREAK_THRESHOLD_MS): InstrumentalBreak[] {
+    const breaks: InstrumentalBreak[] = [];
+    if (lines.length === 0) return breaks;
+
+    if (lines[0].time >= thresholdMs) {
+        breaks.push({ afterLineIndex: -1, startTime: 0, endTime: lines[0].time });
+    }
+
+    for (let i = 0; i < lines.length - 1; i++) {
+        const startTime = estimateSungEnd(lines[i]);
+        const endTime = lines[i + 1].time;
+        if (endTime - startTime >= thresholdMs) {
+            breaks.push({ afterLineIndex: i, startTime, endTime });
+        }
+    }
+
+    return breaks;
+}
+
+
+export function getActiveBreak(breaks: InstrumentalBreak[], currentTimeMs: number): InstrumentalBreak | null {
+    return breaks.find(b => currentTimeMs >= b.startTime && currentTimeMs < b.endTime) ?? null;
+}
+
+
 export function getTimeRemainingForLine(line: LyricLine, currentTimeMs: number): number {
     if (!line.endTime) return 0;
     return Math.max(0, line.endTime - currentTimeMs);
@@ -99,3 +264,65 @@ export function formatTime(ms: number): string {
     const seconds = totalSeconds % 60;
     return `${minutes}:${seconds.toString().padStart(2, '0')}`;
 }
+
+
+export function getSweptCharacterCount(line: LyricLine, currentTimeMs: number): number {
+    if (currentTimeMs <= line.time) return 0;
+
+    if (line.words && line.words.length > 0) {
+        let swept = 0;
+        for (const word of line.words) {
+            const wordEnd = word.endTime ?? word.time;
+            if (currentTimeMs >= wordEnd) {
+                swept += word.text.length;
+            } else if (currentTimeMs > word.time) {
+                swept += word.text.length * (currentTimeMs - word.time) / (wordEnd - word.time);
+                break;
+            } else {
+                break;
+            }
+        }
+        return swept;
+    }
+
+    const lineEnd = line.endTime ?? line.time;
+    if (currentTimeMs >= lineEnd) return line.text.length;
+    return line.text.length * (currentTimeMs - line.time) / (lineEnd - line.time);
+}
+
+
+export function formatTimestamp(ms: number): string {
+    const centiseconds = Math.max(0, Math.round(ms / 10));
+    const minutes = Math.floor(centiseconds / 6000);
+    const seconds = Math.floor((centiseconds % 6000) / 100);
+    const fraction = centiseconds % 100;
+    return `${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}.${fraction.toString().padStart(2, '0')}`;
+}
+
+
+export function serializeLRC(lyrics: ParsedLyrics): string {
+    const { metadata } = lyrics;
+    const output: string[] = [];
+
+    if (metadata.artist) output.push(`[ar:${metadata.artist}]`);
+    if (metadata.title) output.push(`[ti:${metadata.title}]`);
+    if (metadata.album) output.push(`[al:${metadata.album}]`);
+    if (metadata.creator) output.push(`[by:${metadata.creator}]`);
+    if (metadata.editor) output.push(`[re:${metadata.editor}]`);
+    if (metadata.editorVersion) output.push(`[ve:${metadata.editorVersion}]`);
+    if (metadata.offset) output.push(`[offset:${metadata.offset > 0 ? '+' : ''}${metadata.offset}]`);
+    if (metadata.duration) {
+        output.push(`[length:${Math.floor(metadata.duration / 60)}:${(metadata.duration % 60).toString().padStart(2, '0')}]`);
+    }
+
+    for (const line of lyrics.lines) {
+        const body = line.words
+            ? line.words.map(word => `<${formatTimestamp(word.time)}>${word.text}`).join('') +
+                `<${formatTimestamp(line.words[line.words.length - 1].endTime ?? line.endTime ?? line.time)}>`
+            : line.text;
+        const voicePrefix = line.voice ? (SHORT_VOICE_REGEX.test(line.voice) ? `${line.voice}: ` : `[${line.voice}]: `) : '';
+        output.push(`[${formatTimestamp(line.time)}]${voicePrefix}${body}`);
+    }
+
+    return output.join('\n');
+}
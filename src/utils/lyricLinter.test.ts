@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import type { ParsedLyrics } from '../types';
+import { applyLyricFix, getCharactersPerSecond, lintLyrics } from './lyricLinter';
+import { parseLRC } from './lrcParser';
+
+function codesOf(lyrics: ParsedLyrics, audioDurationMs?: number) {
+    return lintLyrics(lyrics, audioDurationMs).map(diagnostic => [diagnostic.code, diagnostic.lineIndex]);
+}
+
+describe('lintLyrics', () => {
+    it('reports lyrics without lines', () => {
+        expect(codesOf({ lines: [], metadata: {} })).toEqual([['no-lines', undefined]]);
+    });
+
+    it('passes well-timed lyrics', () => {
+        expect(codesOf(parseLRC('[00:01.00]Hello there\n[00:05.00]General Kenobi'))).toEqual([]);
+    });
+
+    it('flags duplicates and shared timestamps', () => {
+        const lyrics = parseLRC([
+            '[00:01.00]Same',
+            '[00:01.00]Same',
+            '[00:05.00]First half',
+            '[00:05.00]second half',
+            '[00:10.00]End',
+        ].join('\n'));
+
+        expect(codesOf(lyrics)).toEqual([
+            ['duplicate-line', 1],
+            ['duplicate-timestamp', 2],
+        ]);
+    });
+
+    it('flags filler lines and lines that are too fast to type', () => {
+        const lyrics = parseLRC([
+            '[00:01.00](Instrumental)',
+            '[00:05.00]♪',
+            '[00:10.00]This line has far too many characters',
+            '[00:11.00]Slow line',
+        ].join('\n'));
+
+        const diagnostics = lintLyrics(lyrics);
+        expect(diagnostics.map(diagnostic => [diagnostic.code, diagnostic.lineIndex])).toEqual([
+            ['filler-line', 0],
+            ['filler-line', 1],
+            ['too-fast', 2],
+        ]);
+        expect(diagnostics[2].fix).toEqual({ type: 'merge', lineIndex: 2 });
+        expect(getCharactersPerSecond(lyrics.lines[2])).toBe(37);
+    });
+
+    it('flags lines timed out of file order and past the end of the audio', () => {
+        const lyrics = parseLRC('[00:01.00]One\n[01:30.00]Three\n[00:20.00]Two');
+
+        expect(codesOf(lyrics, 60000)).toEqual([
+            ['out-of-order', 2],
+            ['past-audio-end', 2],
+        ]);
+    });
+});
+
+describe('applyLyricFix', () => {
+    it('removes a line and extends the previous one to fill the gap', () => {
+        const lyrics = parseLRC('[00:01.00]One\n[00:05.00]♪\n[00:10.00]Two');
+        const fixed = applyLyricFix(lyrics, { type: 'remove', lineIndex: 1 });
+
+        expect(fixed.lines.map(line => [line.time, line.text, line.endTime])).toEqual([
+            [1000, 'One', 10000],
+            [10000, 'Two', 15000],
+        ]);
+        expect(lyrics.lines).toHaveLength(3);
+    });
+
+    it('extends the new last line when the last line is removed', () => {
+        const lyrics = parseLRC('[00:01.00]One\n[00:05.00]♪');
+        const fixed = applyLyricFix(lyrics, { type: 'remove', lineIndex: 1 });
+
+        expect(fixed.lines).toEqual([{ ...lyrics.lines[0], endTime: 10000 }]);
+    });
+
+    it('merges a line with the next, keeping word timings', () => {
+        const lyrics = parseLRC('[00:01.00]<00:01.00>Hello <00:01.50>you\n[00:02.00]<00:02.00>there\n[00:06.00]End');
+        const fixed = applyLyricFix(lyrics, { type: 'merge', lineIndex: 0 });
+
+        expect(fixed.lines[0]).toMatchObject({ time: 1000, endTime: 6000, text: 'Hello you there' });
+        expect(fixed.lines[0].words?.map(word => word.text)).toEqual(['Hello ', 'you ', 'there']);
+        expect(fixed.lines).toHaveLength(2);
+    });
+});
@@ -0,0 +1,193 @@
+import type { LyricLine, ParsedLyrics } from '../types';
+import { formatTime } from './lrcParser';
+import { normalizeForComparison } from './normalization';
+
+export type LyricDiagnosticCode =
+    | 'no-lines'
+    | 'duplicate-timestamp'
+    | 'duplicate-line'
+    | 'out-of-order'
+    | 'filler-line'
+    | 'too-fast'
+    | 'past-audio-end';
+
+export type LyricDiagnosticSeverity = 'error' | 'warning' | 'info';
+
+export type LyricFix =
+    | { type: 'remove'; lineIndex: number }
+    | { type: 'merge'; lineIndex: number };
+
+export interface LyricDiagnostic {
+    code: LyricDiagnosticCode;
+    severity: LyricDiagnosticSeverity;
+    lineIndex?: number;
+    message: string;
+    suggestion: string;
+    fix?: LyricFix;
+}
+
+export const MAX_CHARACTERS_PER_SECOND = 15;
+const AUDIO_END_TOLERANCE_MS = 2000;
+const FILLER_TEXT_REGEX = /^[([]?\s*(instrumental|music|intro|outro|solo|interlude|break|chorus|verse|bridge)\s*[)\]]?$/i;
+
+
+function describeLine(line: LyricLine, index: number): string {
+    const source = line.sourceLine !== undefined ? `, file line ${line.sourceLine}` : '';
+    return `Line ${index + 1} (${formatTime(line.time)}${source})`;
+}
+
+
+function isFillerLine(line: LyricLine): boolean {
+    const typeable = normalizeForComparison(line.text).replace(/[\s\p{S}]/gu, '');
+    return typeable.length === 0 || FILLER_TEXT_REGEX.test(line.text.trim());
+}
+
+
+export function getCharactersPerSecond(line: LyricLine): number {
+    const durationMs = (line.endTime ?? line.time) - line.time;
+    const characters = normalizeForComparison(line.text).length;
+    if (durationMs <= 0) return characters > 0 ? Infinity : 0;
+    return characters / (durationMs / 1000);
+}
+
+
+export function lintLyrics(lyrics: ParsedLyrics, audioDurationMs?: number): LyricDiagnostic[] {
+    const { lines } = lyrics;
+    const diagnostics: LyricDiagnostic[] = [];
+
+    if (lines.length === 0) {
+        return [{
+            code: 'no-lines',
+            severity: 'error',
+            message: 'No timed lyric lines were found.',
+            suggestion: 'Pick another LRCLIB version or sync the lyrics in the editor.',
+        }];
+    }
+
+    const sourceLineCounts = new Map<number, number>();
+    for (const line of lines) {
+        if (line.sourceLine !== undefined) {
+            sourceLineCounts.set(line.sourceLine, (sourceLineCounts.get(line.sourceLine) ?? 0) + 1);
+        }
+    }
+
+    let previousSourceLine = -1;
+
+    lines.forEach((line, index) => {
+        const previous = index > 0 ? lines[index - 1] : null;
+        const next = index < lines.length - 1 ? lines[index + 1] : null;
+        const sharesTimestamp = (previous !== null && previous.time === line.time) || (next !== null && next.time === line.time);
+
+        if (previous && previous.time === line.time) {
+            if (previous.text === line.text) {
+                diagnostics.push({
+                    code: 'duplicate-line',
+                    severity: 'warning',
+                    lineIndex: index,
+                    message: `${describeLine(line, index)} repeats the previous line at the same time.`,
+                    suggestion: 'Remove the duplicate.',
+                    fix: { type: 'remove', lineIndex: index },
+                });
+            } else {
+                diagnostics.push({
+                    code: 'duplicate-timestamp',
+                    severity: 'warning',
+                    lineIndex: index - 1,
+                    message: `${describeLine(line, index)} shares its timestamp with the previous line, which leaves no time to type it.`,
+                    suggestion: 'Merge the two lines into one.',
+                    fix: { type: 'merge', lineIndex: index - 1 },
+                });
+            }
+        }
+
+        if (line.sourceLine !== undefined && sourceLineCounts.get(line.sourceLine) === 1) {
+            if (line.sourceLine < previousSourceLine) {
+                diagnostics.push({
+                    code: 'out-of-order',
+                    severity: 'info',
+                    lineIndex: index,
+                    message: `${describeLine(line, index)} comes before the previous line in the file but is timed after it.`,
+                    suggestion: 'Check that the timestamp is correct; out-of-order files are often mistimed.',
+                });
+            }
+            previousSourceLine = line.sourceLine;
+        }
+
+        if (isFillerLine(line)) {
+            diagnostics.push({
+                code: 'filler-line',
+                severity: 'warning',
+                lineIndex: index,
+                message: `${describeLine(line, index)} "${line.text}" has nothing to type.`,
+                suggestion: 'Remove the line so it is not scored as a miss.',
+                fix: { type: 'remove', lineIndex: index },
+            });
+            return;
+        }
+
+        const charactersPerSecond = getCharactersPerSecond(line);
+        if (charactersPerSecond > MAX_CHARACTERS_PER_SECOND && !sharesTimestamp) {
+            const hasNext = next !== null;
+            diagnostics.push({
+                code: 'too-fast',
+                severity: 'warning',
+                lineIndex: index,
+                message: `${describeLine(line, index)} needs ${Number.isFinite(charactersPerSecond) ? charactersPerSecond.toFixed(1) : 'unlimited'} characters per second.`,
+                suggestion: hasNext
+                    ? 'Merge it with the next line to give it more time.'
+                    : 'Split the line or pick a version with looser timing.',
+                fix: hasNext ? { type: 'merge', lineIndex: index } : undefined,
+            });
+        }
+    });
+
+    if (audioDurationMs && audioDurationMs > 0) {
+        const lastIndex = lines.length - 1;
+        const lastLine = lines[lastIndex];
+        if (lastLine.time > audioDurationMs + AUDIO_END_TOLERANCE_MS) {
+            diagnostics.push({
+                code: 'past-audio-end',
+                severity: 'error',
+                lineIndex: lastIndex,
+                message: `${describeLine(lastLine, lastIndex)} starts after the audio ends at ${formatTime(audioDurationMs)}.`,
+                suggestion: 'The lyrics likely belong to a different cut of the song. Pick another LRCLIB version or audio source.',
+            });
+        }
+    }
+
+    return diagnostics;
+}
+
+
+export function applyLyricFix(lyrics: ParsedLyrics, fix: LyricFix): ParsedLyrics {
+    const lines = [...lyrics.lines];
+
+    switch (fix.type) {
+        case 'remove':
+            lines.splice(fix.lineIndex, 1);
+            if (fix.lineIndex > 0 && fix.lineIndex <= lines.length) {
+                lines[fix.lineIndex - 1] = {
+                    ...lines[fix.lineIndex - 1],
+                    endTime: lines[fix.lineIndex]?.time ?? lyrics.lines[fix.lineIndex].endTime,
+                };
+            }
+            break;
+        case 'merge': {
+            const first = lines[fix.lineIndex];
+            const second = lines[fix.lineIndex + 1];
+            if (!first || !second) break;
+            const lastWord = first.words?.[first.words.length - 1];
+            lines.splice(fix.lineIndex, 2, {
+                ...first,
+                text: `${first.text} ${second.text}`,
+                endTime: second.endTime,
+                words: first.words && lastWord && second.words
+                    ? [...first.words.slice(0, -1), { ...lastWord, text: `${lastWord.text.trimEnd()} ` }, ...second.words]
+                    : undefined,
+            });
+            break;
+        }
+    }
+
+    return { ...lyrics, lines };
+}
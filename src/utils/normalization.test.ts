@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import {
+    alignTypedToExpected,
+    hasNonLatinScript,
+    normalizeForComparison,
+    normalizeText,
+    toTypingText,
+    transliterate,
+} from './normalization';
+
+describe('normalizeText', () => {
+    it('folds typographic characters to their keyboard equivalents', () => {
+        expect(normalizeText('It’s “fine”…')).toBe(`It's "fine"...`);
+    });
+
+    it('applies compatibility normalization', () => {
+        expect(normalizeText('ＡＢＣ１２３')).toBe('ABC123');
+    });
+});
+
+describe('normalizeForComparison', () => {
+    it('lowercases and drops punctuation', () => {
+        expect(normalizeForComparison('Don’t STOP, me now!')).toBe('dont stop me now');
+    });
+});
+
+describe('transliterate', () => {
+    it('detects scripts that need romanizing', () => {
+        expect(hasNonLatinScript('hello')).toBe(false);
+        expect(hasNonLatinScript('こんにちは')).toBe(true);
+        expect(hasNonLatinScript('привет')).toBe(true);
+    });
+
+    it('romanizes kana with small kana, sokuon and long vowels', () => {
+        expect(transliterate('きょう')).toBe('kyou');
+        expect(transliterate('がっこう')).toBe('gakkou');
+        expect(transliterate('ラーメン')).toBe('raamen');
+    });
+
+    it('romanizes hangul and carries finals into vowel-initial syllables', () => {
+        expect(transliterate('한국어')).toBe('hangugeo');
+    });
+
+    it('romanizes cyrillic and greek while keeping case', () => {
+        expect(transliterate('Привет')).toBe('Privet');
+        expect(transliterate('Αθήνα')).toBe('Athina');
+    });
+
+    it('builds typing text only when romanizing', () => {
+        expect(toTypingText('ありがとう', false)).toBe('ありがとう');
+        expect(toTypingText('ありがとう', true)).toBe('arigatou');
+    });
+});
+
+describe('alignTypedToExpected', () => {
+    it('maps typed characters past skipped punctuation', () => {
+        expect(alignTypedToExpected('dont', "don't")).toEqual([0, 1, 2, 4]);
+    });
+
+    it('keeps typed punctuation aligned when it matches', () => {
+        expect(alignTypedToExpected("don't", "don't")).toEqual([0, 1, 2, 3, 4]);
+    });
+
+    it('marks unexpected punctuation and clamps overflow', () => {
+        expect(alignTypedToExpected('a!b', 'ab')).toEqual([0, -1, 1]);
+        expect(alignTypedToExpected('abc', 'ab')).toEqual([0, 1, 2]);
+    });
+});
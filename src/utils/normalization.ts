@@ -0,0 +1,273 @@
+const CHARACTER_REPLACEMENTS: Record<string, string> = {
+    '‘': "'",
+    '’': "'",
+    '‚': "'",
+    '‛': "'",
+    '′': "'",
+    '´': "'",
+    '`': "'",
+    '“': '"',
+    '”': '"',
+    '„': '"',
+    '‟': '"',
+    '″': '"',
+    '«': '"',
+    '»': '"',
+    '‐': '-',
+    '‑': '-',
+    '‒': '-',
+    '–': '-',
+    '—': '-',
+    '―': '-',
+    '−': '-',
+    '…': '...',
+    '\u00A0': ' ',
+    '\u2009': ' ',
+    '\u202F': ' ',
+    '\u200B': '',
+    '\u3000': ' ',
+};
+
+const HIRAGANA_ROMAJI: Record<string, string> = {
+    'あ': 'a', 'い': 'i', 'う': 'u', 'え': 'e', 'お': 'o',
+    'か': 'ka', 'き': 'ki', 'く': 'ku', 'け': 'ke', 'こ': 'ko',
+    'さ': 'sa', 'し': 'shi', 'す': 'su', 'せ': 'se', 'そ': 'so',
+    'た': 'ta', 'ち': 'chi', 'つ': 'tsu', 'て': 'te', 'と': 'to',
+    'な': 'na', 'に': 'ni', 'ぬ': 'nu', 'ね': 'ne', 'の': 'no',
+    'は': 'ha', 'ひ': 'hi', 'ふ': 'fu', 'へ': 'he', 'ほ': 'ho',
+    'ま': 'ma', 'み': 'mi', 'む': 'mu', 'め': 'me', 'も': 'mo',
+    'や': 'ya', 'ゆ': 'yu', 'よ': 'yo',
+    'ら': 'ra', 'り': 'ri', 'る': 'ru', 'れ': 're', 'ろ': 'ro',
+    'わ': 'wa', 'ゐ': 'i', 'ゑ': 'e', 'を': 'o', 'ん': 'n',
+    'が': 'ga', 'ぎ': 'gi', 'ぐ': 'gu', 'げ': 'ge', 'ご': 'go',
+    'ざ': 'za', 'じ': 'ji', 'ず': 'zu', 'ぜ': 'ze', 'ぞ': 'zo',
+    'だ': 'da', 'ぢ': 'ji', 'づ': 'zu', 'で': 'de', 'ど': 'do',
+    'ば': 'ba', 'び': 'bi', 'ぶ': 'bu', 'べ': 'be', 'ぼ': 'bo',
+    'ぱ': 'pa', 'ぴ': 'pi', 'ぷ': 'pu', 'ぺ': 'pe', 'ぽ': 'po',
+    'ゔ': 'vu',
+};
+
+const SMALL_YA_YU_YO: Record<string, string> = { 'ゃ': 'a', 'ゅ': 'u', 'ょ': 'o' };
+const SMALL_VOWELS: Record<string, string> = { 'ぁ': 'a', 'ぃ': 'i', 'ぅ': 'u', 'ぇ': 'e', 'ぉ': 'o', 'ゎ': 'a' };
+
+const JAPANESE_PUNCTUATION: Record<string, string> = {
+    '、': ', ',
+    '。': '. ',
+    '「': '"',
+    '」': '"',
+    '『': '"',
+    '』': '"',
+    '・': ' ',
+    '〜': '~',
+};
+
+const HANGUL_INITIALS = ['g', 'kk', 'n', 'd', 'tt', 'r', 'm', 'b', 'pp', 's', 'ss', '', 'j', 'jj', 'ch', 'k', 't', 'p', 'h'];
+const HANGUL_MEDIALS = ['a', 'ae', 'ya', 'yae', 'eo', 'e', 'yeo', 'ye', 'o', 'wa', 'wae', 'oe', 'yo', 'u', 'wo', 'we', 'wi', 'yu', 'eu', 'ui', 'i'];
+const HANGUL_FINALS = ['', 'k', 'k', 'k', 'n', 'n', 'n', 't', 'l', 'k', 'm', 'l', 'l', 'l', 'p', 'l', 'm', 'p', 'p', 't', 't', 'ng', 't', 't', 'k', 't', 'p', 't'];
+const HANGUL_FINALS_BEFORE_VOWEL: Record<number, string> = {
+    1: 'g', 2: 'kk', 4: 'n', 7: 'd', 8: 'r', 16: 'm', 17: 'b', 19: 's', 20: 'ss', 22: 'j', 23: 'ch', 24: 'k', 25: 't', 26: 'p', 27: '',
+};
+const HANGUL_SILENT_INITIAL = 11;
+
+const CYRILLIC_LATIN: Record<string, string> = {
+    'а': 'a', 'б': 'b', 'в': 'v', 'г': 'g', 'д': 'd', 'е': 'e', 'ё': 'yo', 'ж': 'zh',
+    'з': 'z', 'и': 'i', 'й': 'y', 'к': 'k', 'л': 'l', 'м': 'm', 'н': 'n', 'о': 'o',
+    'п': 'p', 'р': 'r', 'с': 's', 'т': 't', 'у': 'u', 'ф': 'f', 'х': 'kh', 'ц': 'ts',
+    'ч': 'ch', 'ш': 'sh', 'щ': 'shch', 'ъ': '', 'ы': 'y', 'ь': '', 'э': 'e', 'ю': 'yu',
+    'я': 'ya', 'і': 'i', 'ї': 'yi', 'є': 'ye', 'ґ': 'g', 'ў': 'u', 'ђ': 'dj', 'ј': 'j',
+    'љ': 'lj', 'њ': 'nj', 'ћ': 'c', 'џ': 'dz',
+};
+
+const GREEK_LATIN: Record<string, string> = {
+    'α': 'a', 'β': 'v', 'γ': 'g', 'δ': 'd', 'ε': 'e', 'ζ': 'z', 'η': 'i', 'θ': 'th',
+    'ι': 'i', 'κ': 'k', 'λ': 'l', 'μ': 'm', 'ν': 'n', 'ξ': 'x', 'ο': 'o', 'π': 'p',
+    'ρ': 'r', 'σ': 's', 'ς': 's', 'τ': 't', 'υ': 'y', 'φ': 'f', 'χ': 'ch', 'ψ': 'ps',
+    'ω': 'o', 'ά': 'a', 'έ': 'e', 'ή': 'i', 'ί': 'i', 'ό': 'o', 'ύ': 'y', 'ώ': 'o',
+    'ϊ': 'i', 'ϋ': 'y', 'ΐ': 'i', 'ΰ': 'y',
+};
+
+const NON_LATIN_SCRIPT_REGEX = /[\u3040-\u30FF\u1100-\u11FF\u3130-\u318F\uAC00-\uD7AF\u0400-\u04FF\u0370-\u03FF\u1F00-\u1FFF]/;
+
+
+export function normalizeText(text: string): string {
+    return Array.from(text.normalize('NFKC'))
+        .map(char => CHARACTER_REPLACEMENTS[char] ?? char)
+        .join('');
+}
+
+
+export function hasNonLatinScript(text: string): boolean {
+    return NON_LATIN_SCRIPT_REGEX.test(text);
+}
+
+
+function toHiragana(char: string): string {
+    const code = char.charCodeAt(0);
+    if (code >= 0x30A1 && code <= 0x30F6) {
+        return String.fromCharCode(code - 0x60);
+    }
+    return char;
+}
+
+
+function matchCase(source: string, latin: string): string {
+    if (!latin || source === source.toLowerCase()) return latin;
+    return latin[0].toUpperCase() + latin.slice(1);
+}
+
+
+function romanizeHangulSyllable(code: number, nextCode: number | undefined): { text: string; nextInitial?: string } {
+    const index = code - 0xAC00;
+    const initial = Math.floor(index / 588);
+    const medial = Math.floor((index % 588) / 28);
+    const final = index % 28;
+
+    const nextIndex = nextCode !== undefined && nextCode >= 0xAC00 && nextCode <= 0xD7A3 ? nextCode - 0xAC00 : -1;
+    const nextIsVowelInitial = nextIndex >= 0 && Math.floor(nextIndex / 588) === HANGUL_SILENT_INITIAL;
+
+    if (final !== 0 && nextIsVowelInitial && final in HANGUL_FINALS_BEFORE_VOWEL) {
+        return {
+            text: HANGUL_INITIALS[initial] + HANGUL_MEDIALS[medial],
+            nextInitial: HANGUL_FINALS_BEFORE_VOWEL[final],
+        };
+    }
+
+    return { text: HANGUL_INITIALS[initial] + HANGUL_MEDIALS[medial] + HANGUL_FINALS[final] };
+}
+
+
+export function transliterate(text: string): string {
+    const chars = Array.from(text);
+    let output = '';
+    let doubleNext = false;
+    let carriedInitial: string | undefined;
+
+    for (let i = 0; i < chars.length; i++) {
+        const char = chars[i];
+        const lower = char.toLowerCase();
+        const kana = toHiragana(char);
+        const code = char.charCodeAt(0);
+
+        if (code >= 0xAC00 && code <= 0xD7A3) {
+            const syllable = romanizeHangulSyllable(code, chars[i + 1]?.charCodeAt(0));
+            const text = carriedInitial !== undefined ? carriedInitial + syllable.text : syllable.text;
+            output += text;
+            carriedInitial = syllable.nextInitial;
+            continue;
+        }
+        carriedInitial = undefined;
+
+        if (HIRAGANA_ROMAJI[kana]) {
+            let romaji = HIRAGANA_ROMAJI[kana];
+            const nextKana = chars[i + 1] ? toHiragana(chars[i + 1]) : '';
+
+            if (SMALL_YA_YU_YO[nextKana] && romaji.endsWith('i') && romaji.length > 1) {
+                const stem = romaji.slice(0, -1);
+                romaji = ['sh', 'ch', 'j'].includes(stem)
+                    ? stem + SMALL_YA_YU_YO[nextKana]
+                    : stem + 'y' + SMALL_YA_YU_YO[nextKana];
+                i++;
+            } else if (SMALL_VOWELS[nextKana]) {
+                romaji = (romaji.length > 1 ? romaji.slice(0, -1) : romaji) + SMALL_VOWELS[nextKana];
+                if (romaji === 'ua' || romaji === 'uu' || romaji === 'ui' || romaji === 'ue' || romaji === 'uo') {
+                    romaji = 'w' + romaji.slice(1);
+                }
+                i++;
+            }
+
+            if (doubleNext) {
+                romaji = romaji.startsWith('ch') ? 't' + romaji : romaji[0] + romaji;
+                doubleNext = false;
+            }
+            output += romaji;
+            continue;
+        }
+
+        if (kana === 'っ') {
+            doubleNext = true;
+            continue;
+        }
+        doubleNext = false;
+
+        if (char === 'ー') {
+            const lastVowel = output.match(/[aeiou](?=[^aeiou]*$)/);
+            output += lastVowel ? lastVowel[0] : '';
+            continue;
+        }
+
+        if (SMALL_YA_YU_YO[kana] || SMALL_VOWELS[kana]) {
+            output += SMALL_YA_YU_YO[kana] ?? SMALL_VOWELS[kana];
+            continue;
+        }
+
+        if (JAPANESE_PUNCTUATION[char]) {
+            output += JAPANESE_PUNCTUATION[char];
+            continue;
+        }
+
+        if (lower in CYRILLIC_LATIN) {
+            output += matchCase(char, CYRILLIC_LATIN[lower]);
+            continue;
+        }
+
+        if (lower in GREEK_LATIN) {
+            const next = chars[i + 1]?.toLowerCase();
+            if (lower === 'ο' && (next === 'υ' || next === 'ύ')) {
+                output += matchCase(char, 'ou');
+                i++;
+                continue;
+            }
+            output += matchCase(char, GREEK_LATIN[lower]);
+            continue;
+        }
+
+        output += char;
+    }
+
+    return output.replace(/ {2,}/g, ' ').trim();
+}
+
+
+export function toTypingText(text: string, romanize: boolean): string {
+    const normalized = normalizeText(text);
+    return romanize ? normalizeText(transliterate(normalized)) : normalized;
+}
+
+
+export function removePunctuation(text: string): string {
+    return text.replace(/[\p{P}]/gu, '');
+}
+
+
+export function normalizeForComparison(text: string): string {
+    return removePunctuation(normalizeText(text).toLowerCase());
+}
+
+
+export function alignTypedToExpected(typed: string, expected: string): number[] {
+    const punctuation = /\p{P}/u;
+    const indexes: number[] = [];
+    let expectedIdx = 0;
+
+    for (let i = 0; i < typed.length; i++) {
+        const char = typed[i];
+        const typedChar = char.toLowerCase();
+        while (
+            expectedIdx < expected.length &&
+            punctuation.test(expected[expectedIdx]) &&
+            expected[expectedIdx].toLowerCase() !== typedChar
+        ) {
+            expectedIdx++;
+        }
+
+        if (punctuation.test(char) && expected[expectedIdx]?.toLowerCase() !== typedChar) {
+            indexes.push(-1);
+            continue;
+        }
+
+        indexes.push(Math.min(expectedIdx, expected.length));
+        expectedIdx++;
+    }
+
+    return indexes;
+}
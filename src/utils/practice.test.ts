@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import type { LineResult } from '../types';
+import { buildPracticeQueue, getPracticeClip, recordPracticeAttempt } from './practice';
+
+function createResult(lineIndex: number, score: number, overrides: Partial<LineResult> = {}): LineResult {
+    return {
+        lineIndex,
+        typedText: '',
+        expectedText: '',
+        characterAccuracy: 0.5,
+        timingResult: 'late',
+        timingScore: 0.75,
+        score,
+        combo: 0,
+        ...overrides,
+    };
+}
+
+describe('buildPracticeQueue', () => {
+    it('queues the lowest scoring imperfect lines first', () => {
+        const results = [
+            createResult(0, 400),
+            createResult(1, 1000, { characterAccuracy: 1, timingResult: 'perfect' }),
+            createResult(2, 200),
+            createResult(3, 900, { characterAccuracy: 1 }),
+            createResult(4, 200),
+        ];
+
+        expect(buildPracticeQueue(results)).toEqual([2, 4, 0, 3]);
+        expect(buildPracticeQueue(results, 2)).toEqual([2, 4]);
+    });
+});
+
+describe('getPracticeClip', () => {
+    it('starts a lead-in before the line in audio time', () => {
+        expect(getPracticeClip({ time: 10000, endTime: 14000, text: 'Hi' }, 500)).toEqual({ start: 7500, end: 13500 });
+        expect(getPracticeClip({ time: 1000, text: 'Hi' }, 0)).toEqual({ start: 0, end: 1000 });
+    });
+});
+
+describe('recordPracticeAttempt', () => {
+    it('tracks attempts and best results per line', () => {
+        let attempts = recordPracticeAttempt([], createResult(2, 300));
+        attempts = recordPracticeAttempt(attempts, createResult(2, 800, { characterAccuracy: 0.97 }));
+        attempts = recordPracticeAttempt(attempts, createResult(2, 100, { characterAccuracy: 0.2 }));
+        attempts = recordPracticeAttempt(attempts, createResult(5, 100));
+
+        expect(attempts).toEqual([
+            { lineIndex: 2, attempts: 3, bestAccuracy: 0.97, bestScore: 800, passed: true },
+            { lineIndex: 5, attempts: 1, bestAccuracy: 0.5, bestScore: 100, passed: false },
+        ]);
+    });
+});
@@ -0,0 +1,62 @@
+import type { LineResult, LyricLine, PracticeLineResult } from '../types';
+
+export interface PracticeClip {
+    start: number;
+    end: number;
+}
+
+export interface PracticeSession {
+    queue: number[];
+    position: number;
+    attempts: PracticeLineResult[];
+    lastResult: LineResult | null;
+    phase: 'playing' | 'result' | 'done';
+}
+
+export const PRACTICE_QUEUE_SIZE = 5;
+export const PRACTICE_LEAD_IN_MS = 2000;
+export const PRACTICE_TARGET_ACCURACY = 0.95;
+
+
+export function buildPracticeQueue(lineResults: LineResult[], limit = PRACTICE_QUEUE_SIZE): number[] {
+    return lineResults
+        .filter(r => r.characterAccuracy < PRACTICE_TARGET_ACCURACY || r.timingResult !== 'perfect')
+        .sort((a, b) => a.score - b.score || a.lineIndex - b.lineIndex)
+        .slice(0, limit)
+        .map(r => r.lineIndex);
+}
+
+
+export function getPracticeClip(line: LyricLine, lyricsOffset: number, leadInMs = PRACTICE_LEAD_IN_MS): PracticeClip {
+    return {
+        start: Math.max(0, line.time - leadInMs - lyricsOffset),
+        end: (line.endTime ?? line.time) - lyricsOffset,
+    };
+}
+
+
+export function recordPracticeAttempt(attempts: PracticeLineResult[], result: LineResult): PracticeLineResult[] {
+    const passed = result.characterAccuracy >= PRACTICE_TARGET_ACCURACY;
+    const existing = attempts.find(a => a.lineIndex === result.lineIndex);
+
+    if (!existing) {
+        return [...attempts, {
+            lineIndex: result.lineIndex,
+            attempts: 1,
+            bestAccuracy: result.characterAccuracy,
+            bestScore: result.score,
+            passed,
+        }];
+    }
+
+    return attempts.map(a => a === existing
+        ? {
+            ...a,
+            attempts: a.attempts + 1,
+            bestAccuracy: Math.max(a.bestAccuracy, result.characterAccuracy),
+            bestScore: Math.max(a.bestScore, result.score),
+            passed: a.passed || passed,
+        }
+        : a
+    );
+}
@@ -0,0 +1,85 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+    DEFAULT_PROFILE_ID,
+    createProfile,
+    getActiveProfile,
+    getActiveProfileId,
+    getProfileKey,
+    getProfiles,
+    removeProfileEntry,
+    renameProfile,
+    setActiveProfileId,
+    validateProfileName,
+} from './profiles';
+import { getSettings, saveSettings } from './storage';
+
+beforeEach(() => {
+    localStorage.clear();
+    vi.useFakeTimers({ now: new Date('2026-01-01T00:00:00.000Z') });
+});
+
+afterEach(() => {
+    vi.useRealTimers();
+});
+
+describe('player profiles', () => {
+    it('always includes the default profile', () => {
+        expect(getProfiles()).toEqual([{ id: DEFAULT_PROFILE_ID, name: 'Player 1', createdAt: '' }]);
+        expect(getActiveProfileId()).toBe(DEFAULT_PROFILE_ID);
+    });
+
+    it('creates, renames and switches profiles', () => {
+        const profile = createProfile('  Sam ');
+        renameProfile(profile.id, 'Alex');
+        setActiveProfileId(profile.id);
+
+        expect(getActiveProfile()).toEqual({ id: profile.id, name: 'Alex', createdAt: '2026-01-01T00:00:00.000Z' });
+        expect(getProfiles()).toHaveLength(2);
+    });
+
+    it('falls back to the default profile when the active one is gone', () => {
+        setActiveProfileId('p-missing');
+        expect(getActiveProfileId()).toBe(DEFAULT_PROFILE_ID);
+
+        const profile = createProfile('Sam');
+        setActiveProfileId(profile.id);
+        removeProfileEntry(profile.id);
+
+        expect(getActiveProfileId()).toBe(DEFAULT_PROFILE_ID);
+        expect(getProfiles().map(p => p.id)).toEqual([DEFAULT_PROFILE_ID]);
+    });
+
+    it('never removes the default profile', () => {
+        removeProfileEntry(DEFAULT_PROFILE_ID);
+        expect(getProfiles().map(p => p.id)).toEqual([DEFAULT_PROFILE_ID]);
+    });
+
+    it('validates names', () => {
+        const profile = createProfile('Sam');
+
+        expect(validateProfileName(' ')).toBe('Profile name is required.');
+        expect(validateProfileName('x'.repeat(25))).toBe('Profile name must be 24 characters or fewer.');
+        expect(validateProfileName('sam')).toBe('A profile with that name already exists.');
+        expect(validateProfileName('sam', profile.id)).toBeNull();
+    });
+});
+
+describe('profile storage keys', () => {
+    it('namespaces keys for every profile but the default', () => {
+        expect(getProfileKey('lyric-karaoke-settings')).toBe('lyric-karaoke-settings');
+        expect(getProfileKey('lyric-karaoke-settings', 'p-1')).toBe('lyric-karaoke-settings:p-1');
+    });
+
+    it('keeps settings separate per profile', () => {
+        saveSettings({ volume: 0.2 });
+        const profile = createProfile('Sam');
+        setActiveProfileId(profile.id);
+
+        expect(getSettings().volume).toBe(0.7);
+        saveSettings({ volume: 0.4 });
+
+        setActiveProfileId(DEFAULT_PROFILE_ID);
+        expect(getSettings().volume).toBe(0.2);
+    });
+});
@@ -0,0 +1,83 @@
+import type { PlayerProfile } from '../types';
+import { isPlayerProfileRecord, readStoredList } from './storageSchema';
+
+export const DEFAULT_PROFILE_ID = 'default';
+export const MAX_PROFILE_NAME_LENGTH = 24;
+
+const PROFILES_KEY = 'lyric-karaoke-profiles';
+const ACTIVE_PROFILE_KEY = 'lyric-karaoke-active-profile';
+
+const DEFAULT_PROFILE: PlayerProfile = {
+    id: DEFAULT_PROFILE_ID,
+    name: 'Player 1',
+    createdAt: '',
+};
+
+
+export function getProfiles(): PlayerProfile[] {
+    const stored = readStoredList(PROFILES_KEY, isPlayerProfileRecord);
+    return stored.some(p => p.id === DEFAULT_PROFILE_ID) ? stored : [DEFAULT_PROFILE, ...stored];
+}
+
+
+function saveProfiles(profiles: PlayerProfile[]): void {
+    localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+}
+
+
+export function getActiveProfileId(): string {
+    const id = localStorage.getItem(ACTIVE_PROFILE_KEY);
+    return id && getProfiles().some(p => p.id === id) ? id : DEFAULT_PROFILE_ID;
+}
+
+
+export function getActiveProfile(): PlayerProfile {
+    const id = getActiveProfileId();
+    return getProfiles().find(p => p.id === id) ?? DEFAULT_PROFILE;
+}
+
+
+export function setActiveProfileId(id: string): void {
+    localStorage.setItem(ACTIVE_PROFILE_KEY, id);
+}
+
+
+export function getProfileKey(key: string, profileId: string = getActiveProfileId()): string {
+    return profileId === DEFAULT_PROFILE_ID ? key : `${key}:${profileId}`;
+}
+
+
+export function validateProfileName(name: string, ignoreId?: string): string | null {
+    const trimmed = name.trim();
+    if (!trimmed) return 'Profile name is required.';
+    if (trimmed.length > MAX_PROFILE_NAME_LENGTH) return `Profile name must be ${MAX_PROFILE_NAME_LENGTH} characters or fewer.`;
+    if (getProfiles().some(p => p.id !== ignoreId && p.name.toLowerCase() === trimmed.toLowerCase())) {
+        return 'A profile with that name already exists.';
+    }
+    return null;
+}
+
+
+export function createProfile(name: string): PlayerProfile {
+    const profile: PlayerProfile = {
+        id: `p-${Date.now().toString(36)}`,
+        name: name.trim(),
+        createdAt: new Date().toISOString(),
+    };
+    saveProfiles([...getProfiles(), profile]);
+    return profile;
+}
+
+
+export function renameProfile(id: string, name: string): void {
+    saveProfiles(getProfiles().map(p => p.id === id ? { ...p, name: name.trim() } : p));
+}
+
+
+export function removeProfileEntry(id: string): void {
+    if (id === DEFAULT_PROFILE_ID) return;
+    saveProfiles(getProfiles().filter(p => p.id !== id));
+    if (localStorage.getItem(ACTIVE_PROFILE_KEY) === id) {
+        setActiveProfileId(DEFAULT_PROFILE_ID);
+    }
+}
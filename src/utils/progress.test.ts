@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import type { GameStats, RunRecord, TypingStats } from '../types';
+import {
+    buildDailyProgress,
+    getGrade,
+    getGradeDistribution,
+    getMostPlayedSongs,
+    getPersonalBests,
+    getRangeStart,
+    getRunWpm,
+} from './progress';
+
+function localIso(day: number, hour: number): string {
+    return new Date(2026, 2, day, hour).toISOString();
+}
+
+function createRun(overrides: Partial<RunRecord> = {}): RunRecord {
+    return {
+        profileId: 'default',
+        songId: '1',
+        trackName: 'Track 1',
+        artistName: 'Artist',
+        difficulty: 'medium',
+        score: 1000,
+        accuracy: 0.9,
+        maxCombo: 3,
+        date: localIso(1, 12),
+        lineResults: [],
+        settings: null,
+        stats: null,
+        typingStats: null,
+        ...overrides,
+    };
+}
+
+describe('getGrade', () => {
+    it('maps accuracy to letter grades', () => {
+        expect([1, 0.95, 0.9, 0.85, 0.7, 0.6, 0.1].map(getGrade)).toEqual(['S', 'S', 'A', 'B', 'C', 'D', 'F']);
+    });
+});
+
+describe('getRangeStart', () => {
+    it('starts ranges at local midnight including today', () => {
+        const now = new Date(2026, 2, 10, 15, 30);
+        expect(getRangeStart('7d', now)).toEqual(new Date(2026, 2, 4));
+        expect(getRangeStart('all', now)).toBeUndefined();
+    });
+});
+
+describe('getRunWpm', () => {
+    it('prefers net WPM over the game stats estimate', () => {
+        expect(getRunWpm(createRun())).toBeNull();
+        expect(getRunWpm(createRun({ stats: { wordsPerMinute: 40 } as GameStats }))).toBe(40);
+        expect(getRunWpm(createRun({
+            stats: { wordsPerMinute: 40 } as GameStats,
+            typingStats: { netWpm: 55 } as TypingStats,
+        }))).toBe(55);
+    });
+});
+
+describe('buildDailyProgress', () => {
+    it('groups runs by local day', () => {
+        const progress = buildDailyProgress([
+            createRun({ date: localIso(2, 9), score: 500, accuracy: 0.5, durationMs: 60000 }),
+            createRun({ date: localIso(1, 23), stats: { wordsPerMinute: 30 } as GameStats, durationMs: 1000 }),
+            createRun({ date: localIso(1, 0), score: 1500, accuracy: 0.7, typingStats: { netWpm: 50, activeTimeMs: 2000 } as TypingStats }),
+        ]);
+
+        expect(progress).toEqual([
+            { date: '2026-03-01', runs: 2, averageWpm: 40, averageAccuracy: 0.8, playtimeMs: 3000, bestScore: 1500 },
+            { date: '2026-03-02', runs: 1, averageWpm: null, averageAccuracy: 0.5, playtimeMs: 60000, bestScore: 500 },
+        ]);
+    });
+});
+
+describe('run summaries', () => {
+    const runs = [
+        createRun({ score: 1000, accuracy: 0.96 }),
+        createRun({ songId: '2', trackName: 'Track 2', score: 3000, accuracy: 0.5, date: localIso(3, 12) }),
+        createRun({ score: 2000, accuracy: 0.82, difficulty: 'hard', typingStats: { netWpm: 70 } as TypingStats }),
+        createRun({ score: 1200, accuracy: 0.91, typingStats: { netWpm: 60 } as TypingStats }),
+    ];
+
+    it('counts runs per grade', () => {
+        expect(getGradeDistribution(runs)).toEqual({ S: 1, A: 1, B: 1, C: 0, D: 0, F: 1 });
+    });
+
+    it('ranks songs by plays', () => {
+        expect(getMostPlayedSongs(runs, 1)).toEqual([
+            { songId: '1', trackName: 'Track 1', artistName: 'Artist', plays: 3, bestScore: 2000 },
+        ]);
+    });
+
+    it('keeps the best score, accuracy and speed per difficulty', () => {
+        expect(getPersonalBests(runs)).toEqual([
+            { difficulty: 'medium', score: 3000, accuracy: 0.96, wpm: 60, trackName: 'Track 2', date: localIso(3, 12) },
+            { difficulty: 'hard', score: 2000, accuracy: 0.82, wpm: 70, trackName: 'Track 1', date: localIso(1, 12) },
+        ]);
+    });
+});
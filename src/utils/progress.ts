@@ -0,0 +1,153 @@
+import type { Difficulty, RunRecord } from '../types';
+
+export type Grade = 'S' | 'A' | 'B' | 'C' | 'D' | 'F';
+export type ProgressRange = '7d' | '30d' | '90d' | 'all';
+
+export interface DailyProgress {
+    date: string;
+    runs: number;
+    averageWpm: number | null;
+    averageAccuracy: number;
+    playtimeMs: number;
+    bestScore: number;
+}
+
+export interface SongPlayCount {
+    songId: string;
+    trackName: string;
+    artistName: string;
+    plays: number;
+    bestScore: number;
+}
+
+export interface PersonalBest {
+    difficulty: Difficulty;
+    score: number;
+    accuracy: number;
+    wpm: number | null;
+    trackName: string;
+    date: string;
+}
+
+export const GRADES: Grade[] = ['S', 'A', 'B', 'C', 'D', 'F'];
+
+export const GRADE_STYLES: Record<Grade, { color: string; shadow: string; bar: string }> = {
+    S: { color: 'text-neon-purple', shadow: 'shadow-neon-purple', bar: 'bg-neon-purple' },
+    A: { color: 'text-neon-green', shadow: 'shadow-neon-green', bar: 'bg-neon-green' },
+    B: { color: 'text-neon-blue', shadow: 'shadow-neon-blue', bar: 'bg-neon-blue' },
+    C: { color: 'text-yellow-400', shadow: 'shadow-yellow-400', bar: 'bg-yellow-400' },
+    D: { color: 'text-orange-400', shadow: 'shadow-orange-400', bar: 'bg-orange-400' },
+    F: { color: 'text-rose-500', shadow: 'shadow-rose-500', bar: 'bg-rose-500' },
+};
+
+export const PROGRESS_RANGES: { range: ProgressRange; label: string; days: number | null }[] = [
+    { range: '7d', label: '7 days', days: 7 },
+    { range: '30d', label: '30 days', days: 30 },
+    { range: '90d', label: '90 days', days: 90 },
+    { range: 'all', label: 'All time', days: null },
+];
+
+
+export function getGrade(accuracy: number): Grade {
+    if (accuracy >= 0.95) return 'S';
+    if (accuracy >= 0.90) return 'A';
+    if (accuracy >= 0.80) return 'B';
+    if (accuracy >= 0.70) return 'C';
+    if (accuracy >= 0.60) return 'D';
+    return 'F';
+}
+
+
+export function getRangeStart(range: ProgressRange, now: Date = new Date()): Date | undefined {
+    const days = PROGRESS_RANGES.find(r => r.range === range)?.days;
+    if (!days) return undefined;
+    const start = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    start.setDate(start.getDate() - (days - 1));
+    return start;
+}
+
+
+export function getRunWpm(run: RunRecord): number | null {
+    return run.typingStats?.netWpm ?? run.stats?.wordsPerMinute ?? null;
+}
+
+
+export function getRunPlaytimeMs(run: RunRecord): number {
+    return run.durationMs ?? run.typingStats?.activeTimeMs ?? 0;
+}
+
+
+function getLocalDateKey(iso: string): string {
+    const date = new Date(iso);
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+}
+
+
+export function buildDailyProgress(runs: RunRecord[]): DailyProgress[] {
+    const days = new Map<string, RunRecord[]>();
+    for (const run of runs) {
+        const key = getLocalDateKey(run.date);
+        days.set(key, [...(days.get(key) ?? []), run]);
+    }
+
+    return [...days.entries()]
+        .sort((a, b) => a[0].localeCompare(b[0]))
+        .map(([date, dayRuns]) => {
+            const wpms = dayRuns.map(getRunWpm).filter((wpm): wpm is number => wpm !== null);
+            return {
+                date,
+                runs: dayRuns.length,
+                averageWpm: wpms.length > 0 ? wpms.reduce((sum, wpm) => sum + wpm, 0) / wpms.length : null,
+                averageAccuracy: dayRuns.reduce((sum, run) => sum + run.accuracy, 0) / dayRuns.length,
+                playtimeMs: dayRuns.reduce((sum, run) => sum + getRunPlaytimeMs(run), 0),
+                bestScore: Math.max(...dayRuns.map(run => run.score)),
+            };
+        });
+}
+
+
+export function getGradeDistribution(runs: RunRecord[]): Record<Grade, number> {
+    const counts = Object.fromEntries(GRADES.map(grade => [grade, 0])) as Record<Grade, number>;
+    for (const run of runs) {
+        counts[getGrade(run.accuracy)]++;
+    }
+    return counts;
+}
+
+
+export function getMostPlayedSongs(runs: RunRecord[], limit = 5): SongPlayCount[] {
+    const songs = new Map<string, SongPlayCount>();
+    for (const run of runs) {
+        const song = songs.get(run.songId);
+        songs.set(run.songId, {
+            songId: run.songId,
+            trackName: run.trackName,
+            artistName: run.artistName,
+            plays: (song?.plays ?? 0) + 1,
+            bestScore: Math.max(song?.bestScore ?? 0, run.score),
+        });
+    }
+    return [...songs.values()]
+        .sort((a, b) => b.plays - a.plays || b.bestScore - a.bestScore)
+        .slice(0, limit);
+}
+
+
+export function getPersonalBests(runs: RunRecord[]): PersonalBest[] {
+    const bests = new Map<Difficulty, PersonalBest>();
+    for (const run of runs) {
+        const best = bests.get(run.difficulty);
+        const wpm = getRunWpm(run);
+        bests.set(run.difficulty, {
+            difficulty: run.difficulty,
+            score: Math.max(best?.score ?? 0, run.score),
+            accuracy: Math.max(best?.accuracy ?? 0, run.accuracy),
+            wpm: wpm === null ? best?.wpm ?? null : Math.max(best?.wpm ?? 0, wpm),
+            trackName: !best || run.score > best.score ? run.trackName : best.trackName,
+            date: !best || run.score > best.score ? run.date : best.date,
+        });
+    }
+    return [...bests.values()].sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import { DIFFICULTY_SETTINGS } from '../types';
+import type { RunLog } from '../types';
+import { parseLRC } from './lrcParser';
+import { buildReplayTimeline, findReplayMismatch, getGhostProgress, getReplayFrame } from './replay';
+import { calculateLineScore } from './scoring';
+
+const lyrics = parseLRC('[00:01.00]Hi\n[00:04.00]Yo');
+
+function createLog(overrides: Partial<RunLog> = {}): RunLog {
+    return {
+        version: 2,
+        songId: '1',
+        difficulty: 'medium',
+        romanized: false,
+        lyricsOffset: 0,
+        preRollMs: 0,
+        selectedVoice: null,
+        typingMode: 'normal',
+        startedAt: '2026-01-01T00:00:00.000Z',
+        events: [
+            [600, 0, 0, 'H', 1],
+            [800, 0, 0, 'x', 0],
+            [900, 0, 1, 'i', 1],
+            [3900, 1, 0, 'Yo', 1],
+        ],
+        submissions: [
+            [1000, 0, 3],
+            [4500, 1, 4],
+        ],
+        ...overrides,
+    };
+}
+
+describe('buildReplayTimeline', () => {
+    it('rescores each submission from the recorded keystrokes', () => {
+        const timeline = buildReplayTimeline(createLog(), lyrics);
+        const first = calculateLineScore('Hi', 'Hi', 1000, 1000, 0, DIFFICULTY_SETTINGS.medium);
+        const second = calculateLineScore('Yo', 'Yo', 4500, 4000, first.combo, DIFFICULTY_SETTINGS.medium);
+
+        expect(timeline.results).toEqual([
+            { timeMs: 1000, result: { ...first, lineIndex: 0 } },
+            { timeMs: 4500, result: { ...second, lineIndex: 1 } },
+        ]);
+        expect(timeline.finalScore).toBe(first.score + second.score);
+    });
+
+    it('judges version 2 logs against the lyrics offset', () => {
+        const shifted = buildReplayTimeline(createLog({ lyricsOffset: -500 }), lyrics);
+        const legacy = buildReplayTimeline(createLog({ version: 1, lyricsOffset: -500 }), lyrics);
+
+        expect(shifted.results[1].result.timingResult).toBe('perfect');
+        expect(legacy.results[1].result.timingResult).not.toBe('perfect');
+    });
+
+    it('judges against the difficulty settings recorded in the log', () => {
+        const log = createLog({ difficulty: 'custom-deleted', difficultySettings: DIFFICULTY_SETTINGS.hard });
+        const timeline = buildReplayTimeline(log, lyrics);
+        const first = calculateLineScore('Hi', 'Hi', 1000, 1000, 0, DIFFICULTY_SETTINGS.hard);
+
+        expect(timeline.results[0].result).toEqual({ ...first, lineIndex: 0 });
+    });
+});
+
+describe('getReplayFrame', () => {
+    it('shows the text typed so far on the current line', () => {
+        const log = createLog();
+        const timeline = buildReplayTimeline(log, lyrics);
+
+        expect(getReplayFrame(log, lyrics, timeline, 850)).toMatchObject({
+            currentLineIndex: -1,
+            lineResults: [],
+        });
+        expect(getReplayFrame(log, lyrics, timeline, 3950)).toMatchObject({
+            currentLineIndex: 0,
+            typedText: '',
+            isLineCompleted: true,
+            score: timeline.results[0].result.score,
+        });
+    });
+});
+
+describe('findReplayMismatch', () => {
+    it('accepts a replay that reproduces the recorded results', () => {
+        const timeline = buildReplayTimeline(createLog(), lyrics);
+        const recorded = timeline.results.map(r => r.result);
+
+        expect(findReplayMismatch(timeline, recorded, timeline.finalScore)).toBeNull();
+    });
+
+    it('reports lines whose scores differ or are missing', () => {
+        const timeline = buildReplayTimeline(createLog(), lyrics);
+        const recorded = [{ ...timeline.results[0].result, score: 1 }];
+
+        expect(findReplayMismatch(timeline, recorded)).toEqual({
+            recordedScore: 1,
+            replayScore: timeline.finalScore,
+            lineIndexes: [0, 1],
+        });
+    });
+});
+
+describe('getGhostProgress', () => {
+    it('follows the ghost keystrokes until the line is submitted', () => {
+        const log = createLog();
+        const timeline = buildReplayTimeline(log, lyrics);
+
+        expect(getGhostProgress(log, timeline, 0, 850)).toEqual({ typedText: 'Hx', isLineCompleted: false, score: 0 });
+        expect(getGhostProgress(log, timeline, 0, 1000)).toEqual({
+            typedText: 'Hi',
+            isLineCompleted: true,
+            score: timeline.results[0].result.score,
+        });
+    });
+});
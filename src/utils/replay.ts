@@ -0,0 +1,161 @@
+import type { LineResult, ParsedLyrics, RunLog } from '../types';
+import { getCurrentLineIndex } from './lrcParser';
+import { toTypingText } from './normalization';
+import { applyKeystrokeEvent, getJudgingOffset } from './runLog';
+import { calculateLineScore, recordWordFinishTimes } from './scoring';
+import { getDifficultySettings } from './difficulty';
+
+export interface ReplayTimeline {
+    results: { timeMs: number; result: LineResult }[];
+    finalScore: number;
+}
+
+export interface ReplayFrame {
+    currentLineIndex: number;
+    typedText: string;
+    isLineCompleted: boolean;
+    lineResults: LineResult[];
+    score: number;
+    combo: number;
+    maxCombo: number;
+}
+
+export interface GhostProgress {
+    typedText: string;
+    isLineCompleted: boolean;
+    score: number;
+}
+
+export interface ReplayMismatch {
+    recordedScore: number;
+    replayScore: number;
+    lineIndexes: number[];
+}
+
+
+export function buildReplayTimeline(log: RunLog, lyrics: ParsedLyrics): ReplayTimeline {
+    const texts = new Map<number, string>();
+    const finishTimes = new Map<number, (number | undefined)[]>();
+    const results: ReplayTimeline['results'] = [];
+    let eventCursor = 0;
+    let combo = 0;
+    const judgingOffset = getJudgingOffset(log);
+    const settings = log.difficultySettings ?? getDifficultySettings(log.difficulty);
+
+    for (const [timeMs, lineIndex, eventCount] of log.submissions) {
+        for (; eventCursor < eventCount && eventCursor < log.events.length; eventCursor++) {
+            const event = log.events[eventCursor];
+            const [eventTime, eventLine] = event;
+            const text = applyKeystrokeEvent(texts.get(eventLine) ?? '', event);
+            texts.set(eventLine, text);
+
+            const words = lyrics.lines[eventLine]?.words;
+            if (words) {
+                const lineFinishTimes = finishTimes.get(eventLine) ?? [];
+                recordWordFinishTimes(words, text, log.romanized, lineFinishTimes, eventTime + judgingOffset);
+                finishTimes.set(eventLine, lineFinishTimes);
+            }
+        }
+
+        const line = lyrics.lines[lineIndex];
+        if (!line) continue;
+
+        const result = calculateLineScore(
+            texts.get(lineIndex) ?? '',
+            toTypingText(line.text, log.romanized),
+            timeMs + judgingOffset,
+            line.time,
+            combo,
+            settings,
+            line.words ? { words: line.words, finishTimes: [...(finishTimes.get(lineIndex) ?? [])] } : undefined
+        );
+
+        combo = result.combo;
+        results.push({ timeMs, result: { ...result, lineIndex } });
+    }
+
+    return {
+        results,
+        finalScore: results.reduce((sum, r) => sum + r.result.score, 0),
+    };
+}
+
+
+export function getReplayFrame(log: RunLog, lyrics: ParsedLyrics, timeline: ReplayTimeline, timeMs: number): ReplayFrame {
+    const currentLineIndex = getCurrentLineIndex(lyrics.lines, timeMs + log.lyricsOffset + log.preRollMs);
+    const lineResults = timeline.results
+        .filter(r => r.timeMs <= timeMs)
+        .map(r => r.result);
+    const isLineCompleted = lineResults.some(r => r.lineIndex === currentLineIndex);
+
+    let typedText = '';
+    if (!isLineCompleted) {
+        for (const event of log.events) {
+            if (event[0] > timeMs) break;
+            if (event[1] === currentLineIndex) {
+                typedText = applyKeystrokeEvent(typedText, event);
+            }
+        }
+    }
+
+    return {
+        currentLineIndex,
+        typedText,
+        isLineCompleted,
+        lineResults,
+        score: lineResults.reduce((sum, r) => sum + r.score, 0),
+        combo: lineResults[lineResults.length - 1]?.combo ?? 0,
+        maxCombo: Math.max(0, ...lineResults.map(r => r.combo)),
+    };
+}
+
+
+export function findReplayMismatch(
+    timeline: ReplayTimeline,
+    recordedResults: LineResult[],
+    recordedScore?: number
+): ReplayMismatch | null {
+    const expectedScore = recordedScore ?? recordedResults.reduce((sum, r) => sum + r.score, 0);
+    const lineIndexes = recordedResults
+        .filter(recorded => {
+            const replayed = timeline.results.find(r => r.result.lineIndex === recorded.lineIndex)?.result;
+            return !replayed || replayed.score !== recorded.score || replayed.timingResult !== recorded.timingResult;
+        })
+        .map(r => r.lineIndex);
+
+    for (const { result } of timeline.results) {
+        if (!recordedResults.some(r => r.lineIndex === result.lineIndex)) {
+            lineIndexes.push(result.lineIndex);
+        }
+    }
+
+    if (expectedScore === timeline.finalScore && lineIndexes.length === 0) return null;
+
+    return {
+        recordedScore: expectedScore,
+        replayScore: timeline.finalScore,
+        lineIndexes: lineIndexes.sort((a, b) => a - b),
+    };
+}
+
+
+export function getGhostProgress(log: RunLog, timeline: ReplayTimeline, lineIndex: number, timeMs: number): GhostProgress {
+    const submitted = timeline.results.filter(r => r.timeMs <= timeMs);
+    const lineResult = submitted.find(r => r.result.lineIndex === lineIndex)?.result;
+
+    let typedText = lineResult?.typedText ?? '';
+    if (!lineResult) {
+        for (const event of log.events) {
+            if (event[0] > timeMs) break;
+            if (event[1] === lineIndex) {
+                typedText = applyKeystrokeEvent(typedText, event);
+            }
+        }
+    }
+
+    return {
+        typedText,
+        isLineCompleted: lineResult !== undefined,
+        score: submitted.reduce((sum, r) => sum + r.result.score, 0),
+    };
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { DIFFICULTY_SETTINGS } from '../types';
+import type { KeystrokeEvent } from '../types';
+import {
+    RUN_LOG_VERSION,
+    applyKeystrokeEvent,
+    createKeystrokeEvent,
+    createRunLog,
+    diffTypedText,
+    getJudgingOffset,
+    getRunTypingMode,
+    isCorrectPrefix,
+} from './runLog';
+
+const settings = {
+    romanized: false,
+    lyricsOffset: -200,
+    preRollMs: 0,
+    selectedVoice: null,
+    typingMode: 'strict' as const,
+    difficultySettings: DIFFICULTY_SETTINGS.hard,
+};
+
+describe('createRunLog', () => {
+    it('starts an empty log at the current version', () => {
+        const log = createRunLog('42', 'hard', settings);
+
+        expect(log).toMatchObject({ version: RUN_LOG_VERSION, songId: '42', difficulty: 'hard', ...settings, events: [], submissions: [] });
+        expect(Number.isNaN(Date.parse(log.startedAt))).toBe(false);
+    });
+
+    it('judges against the lyrics offset only from version 2', () => {
+        const log = createRunLog('42', 'hard', settings);
+
+        expect(getJudgingOffset(log)).toBe(-200);
+        expect(getJudgingOffset({ ...log, version: 1 })).toBe(0);
+    });
+
+    it('treats logs without a typing mode as normal', () => {
+        const log = createRunLog('42', 'hard', settings);
+
+        expect(getRunTypingMode(log)).toBe('strict');
+        expect(getRunTypingMode({ ...log, typingMode: undefined })).toBe('normal');
+    });
+});
+
+describe('keystroke events', () => {
+    it('diffs text into a deletion count and inserted suffix', () => {
+        expect(diffTypedText('hello', 'help me')).toEqual({ deleted: 2, inserted: 'p me' });
+        expect(diffTypedText('', 'hi')).toEqual({ deleted: 0, inserted: 'hi' });
+        expect(diffTypedText('hi', 'h')).toEqual({ deleted: 1, inserted: '' });
+    });
+
+    it('checks typed text as a case-insensitive prefix', () => {
+        expect(isCorrectPrefix('HEL', 'hello')).toBe(true);
+        expect(isCorrectPrefix('hex', 'hello')).toBe(false);
+    });
+
+    it('records rounded times and whether the text is still correct', () => {
+        expect(createKeystrokeEvent(1000.6, 2, 'he', 'hel', 'hello')).toEqual([1001, 2, 0, 'l', 1]);
+        expect(createKeystrokeEvent(1200, 2, 'hel', 'hex', 'hello')).toEqual([1200, 2, 1, 'x', 0]);
+        expect(createKeystrokeEvent(1300, 2, 'hel', 'hel', 'hello')).toBeNull();
+    });
+
+    it('replays events back into the typed text', () => {
+        const typed = ['h', 'hx', 'h', 'hi there'];
+        const events: KeystrokeEvent[] = [];
+        let previous = '';
+        for (const [i, next] of typed.entries()) {
+            events.push(createKeystrokeEvent(i * 100, 0, previous, next, 'hi there')!);
+            previous = next;
+        }
+
+        expect(events.reduce(applyKeystrokeEvent, '')).toBe('hi there');
+        expect(events.slice(0, 2).reduce(applyKeystrokeEvent, '')).toBe('hx');
+    });
+});
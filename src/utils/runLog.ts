@@ -0,0 +1,69 @@
+import type { Difficulty, DifficultySettings, KeystrokeEvent, RunLog, TypingMode } from '../types';
+
+export const RUN_LOG_VERSION = 2;
+
+
+export interface RunLogSettings {
+    romanized: boolean;
+    lyricsOffset: number;
+    preRollMs: number;
+    selectedVoice: string | null;
+    typingMode: TypingMode;
+    difficultySettings: DifficultySettings;
+}
+
+
+export function createRunLog(songId: string, difficulty: Difficulty, settings: RunLogSettings): RunLog {
+    return {
+        version: RUN_LOG_VERSION,
+        songId,
+        difficulty,
+        ...settings,
+        startedAt: new Date().toISOString(),
+        events: [],
+        submissions: [],
+    };
+}
+
+
+export function getJudgingOffset(log: RunLog): number {
+    return log.version >= 2 ? log.lyricsOffset : 0;
+}
+
+
+export function getRunTypingMode(log: RunLog): TypingMode {
+    return log.typingMode ?? 'normal';
+}
+
+
+export function diffTypedText(previous: string, next: string): { deleted: number; inserted: string } {
+    let prefix = 0;
+    while (prefix < previous.length && prefix < next.length && previous[prefix] === next[prefix]) {
+        prefix++;
+    }
+    return { deleted: previous.length - prefix, inserted: next.slice(prefix) };
+}
+
+
+export function isCorrectPrefix(typed: string, expected: string): boolean {
+    return expected.toLowerCase().startsWith(typed.toLowerCase());
+}
+
+
+export function createKeystrokeEvent(
+    timeMs: number,
+    lineIndex: number,
+    previous: string,
+    next: string,
+    expected: string
+): KeystrokeEvent | null {
+    const { deleted, inserted } = diffTypedText(previous, next);
+    if (deleted === 0 && inserted === '') return null;
+    return [Math.round(timeMs), lineIndex, deleted, inserted, isCorrectPrefix(next, expected) ? 1 : 0];
+}
+
+
+export function applyKeystrokeEvent(text: string, event: KeystrokeEvent): string {
+    const [, , deleted, inserted] = event;
+    return text.slice(0, text.length - deleted) + inserted;
+}
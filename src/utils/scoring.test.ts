@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { DIFFICULTY_SETTINGS } from '../types';
+import type { LyricWord } from '../types';
+import {
+    alignWords,
+    calculateLineScore,
+    calculateTimingResult,
+    calculateWordTimingResults,
+    recordWordFinishTimes,
+} from './scoring';
+
+const medium = DIFFICULTY_SETTINGS.medium;
+
+const words: LyricWord[] = [
+    { time: 1000, text: 'Hello ', endTime: 1500 },
+    { time: 1500, text: 'world', endTime: 2200 },
+];
+
+describe('calculateTimingResult', () => {
+    it('grades the difference against the difficulty windows', () => {
+        expect(calculateTimingResult(1300, 1000, medium)).toBe('perfect');
+        expect(calculateTimingResult(700, 1000, medium)).toBe('perfect');
+        expect(calculateTimingResult(600, 1000, medium)).toBe('early');
+        expect(calculateTimingResult(1500, 1000, medium)).toBe('late');
+        expect(calculateTimingResult(100, 1000, medium)).toBe('too_early');
+        expect(calculateTimingResult(1900, 1000, medium)).toBe('too_late');
+    });
+});
+
+describe('recordWordFinishTimes', () => {
+    it('stamps each word the first time the typed text covers it', () => {
+        const finishTimes: (number | undefined)[] = [];
+
+        recordWordFinishTimes(words, 'hello w', false, finishTimes, 1400);
+        expect(finishTimes[0]).toBe(1400);
+        expect(finishTimes[1]).toBeUndefined();
+
+        recordWordFinishTimes(words, 'Hello, world', false, finishTimes, 2100);
+        recordWordFinishTimes(words, 'Hello, world', false, finishTimes, 2600);
+        expect(finishTimes).toEqual([1400, 2100]);
+    });
+});
+
+describe('calculateWordTimingResults', () => {
+    it('judges each word end, falling back to the submit time', () => {
+        expect(calculateWordTimingResults({ words, finishTimes: [1500, undefined] }, 3500, medium))
+            .toEqual(['perfect', 'too_late']);
+    });
+});
+
+describe('calculateLineScore', () => {
+    it('judges lines without word timings against the line start', () => {
+        const result = calculateLineScore('Hello world', 'Hello world', 1200, 1000, 0, medium);
+
+        expect(result).toMatchObject({ characterAccuracy: 1, timingResult: 'perfect', timingScore: 1, combo: 1, score: 1000 });
+        expect(result.wordTimingResults).toBeUndefined();
+    });
+
+    it('averages word timings when the line has them', () => {
+        const result = calculateLineScore('Hello world', 'Hello world', 3500, 1000, 2, medium, {
+            words,
+            finishTimes: [1500, undefined],
+        });
+
+        expect(result.wordTimingResults).toEqual(['perfect', 'too_late']);
+        expect(result.timingResult).toBe('late');
+        expect(result.timingScore).toBeCloseTo((1 + medium.tooLatePenalty) / 2);
+        expect(result.combo).toBe(0);
+    });
+
+    it('keeps the combo going when every word is on time', () => {
+        const result = calculateLineScore('Hello world', 'Hello world', 2300, 1000, 2, medium, {
+            words,
+            finishTimes: [1450, 2250],
+        });
+
+        expect(result.timingResult).toBe('perfect');
+        expect(result.combo).toBe(3);
+    });
+});
+
+describe('alignWords', () => {
+    it('marks matching words correct ignoring case and punctuation', () => {
+        expect(alignWords('hello world', 'Hello, world!')).toEqual([
+            { status: 'correct', expected: 'Hello,', typed: 'hello' },
+            { status: 'correct', expected: 'world!', typed: 'world' },
+        ]);
+    });
+
+    it('separates misspelled, missing and extra words', () => {
+        expect(alignWords('quik brown fox now', 'the quick brown fox')).toEqual([
+            { status: 'missing', expected: 'the' },
+            { status: 'misspelled', expected: 'quick', typed: 'quik' },
+            { status: 'correct', expected: 'brown', typed: 'brown' },
+            { status: 'correct', expected: 'fox', typed: 'fox' },
+            { status: 'extra', typed: 'now' },
+        ]);
+    });
+
+    it('reports every word missing when nothing was typed', () => {
+        expect(alignWords('', 'a b')).toEqual([
+            { status: 'missing', expected: 'a' },
+            { status: 'missing', expected: 'b' },
+        ]);
+    });
+
+    it('is attached to each line result', () => {
+        expect(calculateLineScore('helo', 'hello there', 1000, 1000, 0, medium).wordDiff).toEqual([
+            { status: 'misspelled', expected: 'hello', typed: 'helo' },
+            { status: 'missing', expected: 'there' },
+        ]);
+    });
+});
@@ -1,19 +1,20 @@
-import {
-    DIFFICULTY_SETTINGS,
-} from '../types';
 import type {
-    Difficulty,
     DifficultySettings,
     TimingResult,
     LineResult,
     GameStats,
+    LyricWord,
+    WordDiff,
 } from '../types';
+import { normalizeForComparison, toTypingText } from './normalization';
 
-
-export function removePunctuation(text: string): string {
-    return text.replace(/[.,!?;:'"()\-???{}]/g, '').replace(/\[|\]/g, '');
+export interface WordTimingInput {
+    words: LyricWord[];
+    finishTimes: (number | undefined)[];
 }
 
+const MISSPELLING_THRESHOLD = 0.5;
+
 
 function levenshteinDistance(a: string, b: string): number {
     const matrix: number[][] = [];
@@ -47,8 +48,8 @@ export function calculateCharacterAccuracy(typed: string, expected: string): num
     if (!expected) return typed ? 0 : 1;
     if (!typed) return 0;
 
-    const normalizedTyped = removePunctuation(typed.toLowerCase().trim());
-    const normalizedExpected = removePunctuation(expected.toLowerCase().trim());
+    const normalizedTyped = normalizeForComparison(typed.trim());
+    const normalizedExpected = normalizeForComparison(expected.trim());
 
     if (normalizedTyped === normalizedExpected) return 1;
 
@@ -59,6 +60,75 @@ export function calculateCharacterAccuracy(typed: string, expected: string): num
 }
 
 
+function splitWords(text: string): { original: string; normalized: string }[] {
+    return text
+        .split(/\s+/)
+        .map(word => ({ original: word, normalized: normalizeForComparison(word) }))
+        .filter(word => word.normalized.length > 0);
+}
+
+
+function isMisspelling(typed: string, expected: string): boolean {
+    const distance = levenshteinDistance(typed, expected);
+    return distance / Math.max(typed.length, expected.length) <= MISSPELLING_THRESHOLD;
+}
+
+
+export function alignWords(typed: string, expected: string): WordDiff[] {
+    const typedWords = splitWords(typed);
+    const expectedWords = splitWords(expected);
+    const costs: number[][] = [];
+
+    for (let i = 0; i <= typedWords.length; i++) {
+        costs[i] = [];
+        for (let j = 0; j <= expectedWords.length; j++) {
+            if (i === 0 || j === 0) {
+                costs[i][j] = i + j;
+                continue;
+            }
+            const a = typedWords[i - 1].normalized;
+            const b = expectedWords[j - 1].normalized;
+            const substitution = a === b ? 0 : isMisspelling(a, b) ? 1 : 2;
+            costs[i][j] = Math.min(
+                costs[i - 1][j - 1] + substitution,
+                costs[i - 1][j] + 1,
+                costs[i][j - 1] + 1
+            );
+        }
+    }
+
+    const diff: WordDiff[] = [];
+    let i = typedWords.length;
+    let j = expectedWords.length;
+
+    while (i > 0 || j > 0) {
+        if (i > 0 && j > 0) {
+            const a = typedWords[i - 1];
+            const b = expectedWords[j - 1];
+            const same = a.normalized === b.normalized;
+            const substitution = same ? 0 : isMisspelling(a.normalized, b.normalized) ? 1 : 2;
+
+            if (substitution < 2 && costs[i][j] === costs[i - 1][j - 1] + substitution) {
+                diff.push({ status: same ? 'correct' : 'misspelled', expected: b.original, typed: a.original });
+                i--;
+                j--;
+                continue;
+            }
+        }
+
+        if (j > 0 && (i === 0 || costs[i][j] === costs[i][j - 1] + 1)) {
+            diff.push({ status: 'missing', expected: expectedWords[j - 1].original });
+            j--;
+        } else {
+            diff.push({ status: 'extra', typed: typedWords[i - 1].original });
+            i--;
+        }
+    }
+
+    return diff.reverse();
+}
+
+
 export function calculateTimingResult(
     typedTimeMs: number,
     expectedTimeMs: number,
@@ -105,23 +175,75 @@ export function getTimingMultiplier(
 }
 
 
+export function recordWordFinishTimes(
+    words: LyricWord[],
+    typed: string,
+    romanize: boolean,
+    finishTimes: (number | undefined)[],
+    timeMs: number
+): void {
+    const normalizedTyped = normalizeForComparison(typed);
+    let wordPrefix = '';
+    words.forEach((word, i) => {
+        wordPrefix += word.text;
+        const normalizedPrefix = normalizeForComparison(toTypingText(wordPrefix, romanize)).trimEnd();
+        if (finishTimes[i] === undefined && normalizedTyped.startsWith(normalizedPrefix)) {
+            finishTimes[i] = timeMs;
+        }
+    });
+}
+
+
+export function calculateWordTimingResults(
+    wordTiming: WordTimingInput,
+    typedTimeMs: number,
+    settings: DifficultySettings
+): TimingResult[] {
+    return wordTiming.words.map((word, i) =>
+        calculateTimingResult(
+            wordTiming.finishTimes[i] ?? typedTimeMs,
+            word.endTime ?? word.time,
+            settings
+        )
+    );
+}
+
+
 export function calculateLineScore(
     typed: string,
     expected: string,
     typedTimeMs: number,
     expectedTimeMs: number,
     combo: number,
-    difficulty: Difficulty
+    settings: DifficultySettings,
+    wordTiming?: WordTimingInput
 ): LineResult {
-    const settings = DIFFICULTY_SETTINGS[difficulty];
-
     const characterAccuracy = calculateCharacterAccuracy(typed, expected);
 
+    let timingResult: TimingResult;
+    let timingScore: number;
+    let wordTimingResults: TimingResult[] | undefined;
+
+    if (wordTiming && wordTiming.words.length > 0) {
+        const { words, finishTimes } = wordTiming;
+        wordTimingResults = calculateWordTimingResults(wordTiming, typedTimeMs, settings);
+
+        const meanDiff = words.reduce(
+            (sum, word, i) => sum + (finishTimes[i] ?? typedTimeMs) - (word.endTime ?? word.time),
+            0
+        ) / words.length;
+
+        timingResult = calculateTimingResult(meanDiff, 0, settings);
+        timingScore = wordTimingResults.reduce(
+            (sum, r) => sum + getTimingMultiplier(r, settings),
+            0
+        ) / wordTimingResults.length;
+    } else {
+        timingResult = calculateTimingResult(typedTimeMs, expectedTimeMs, settings);
+        timingScore = getTimingMultiplier(timingResult, settings);
+    }
 
-    const timingResult = calculateTimingResult(typedTimeMs, expectedTimeMs, settings);
-    const timingScore = getTimingMultiplier(timingResult, settings);
-
-    const isPerfect = characterAccuracy >= 0.95 && timingResult === 'perfect';
+    const isPerfect = characterAccuracy >= settings.perfectAccuracyThreshold && timingResult === 'perfect';
     const newCombo = isPerfect ? combo + 1 : 0;
     const comboBonus = 1 + (combo * (settings.comboMultiplier - 1) * 0.1);
 
@@ -145,14 +267,17 @@ export function calculateLineScore(
         timingResult,
         timingScore,
         score,
-        combo: newCombo
+        combo: newCombo,
+        wordTimingResults,
+        wordDiff: alignWords(typed, expected),
     };
 }
 
 
 export function calculateGameStats(
     lineResults: LineResult[],
-    totalDurationMs: number
+    totalDurationMs: number,
+    settings: DifficultySettings
 ): GameStats {
     if (lineResults.length === 0) {
         return {
@@ -170,9 +295,9 @@ export function calculateGameStats(
     const accuracy = lineResults.reduce((sum, r) => sum + r.characterAccuracy, 0) / lineResults.length;
     const maxCombo = Math.max(...lineResults.map(r => r.combo), 0);
 
-    const perfectLines = lineResults.filter(r => r.timingResult === 'perfect' && r.characterAccuracy >= 0.95).length;
+    const perfectLines = lineResults.filter(r => r.timingResult === 'perfect' && r.characterAccuracy >= settings.perfectAccuracyThreshold).length;
     const goodLines = lineResults.filter(r =>
-        (r.score > 500 && r.timingResult !== 'perfect') || (r.timingResult === 'perfect' && r.characterAccuracy < 0.95)
+        (r.score > 500 && r.timingResult !== 'perfect') || (r.timingResult === 'perfect' && r.characterAccuracy < settings.perfectAccuracyThreshold)
     ).length;
     const missedLines = lineResults.filter(r => r.score <= 500).length;
 
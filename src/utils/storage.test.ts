@@ -0,0 +1,93 @@
+// @vitest-environment jsdom
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { RunLog } from '../types';
+import { queryRuns } from './history';
+import { STORAGE_MIGRATIONS, STORAGE_SCHEMA_VERSION, getAllBestRuns, getBestRun, migrateStorage, saveBestRun } from './storage';
+import { getQuarantinedRecords, getRepairCount, getStorageVersion, quarantineRecord, runStorageMigrations } from './storageSchema';
+
+function createRunLog(overrides: Partial<RunLog> = {}): RunLog {
+    return {
+        version: 2,
+        songId: '1',
+        difficulty: 'medium',
+        romanized: false,
+        lyricsOffset: 0,
+        preRollMs: 0,
+        selectedVoice: null,
+        startedAt: '2026-01-01T00:00:00.000Z',
+        events: [],
+        submissions: [],
+        finalScore: 1000,
+        ...overrides,
+    };
+}
+
+beforeEach(() => {
+    localStorage.clear();
+});
+
+describe('best runs', () => {
+    it('keeps the highest scoring run per song, difficulty and typing mode', () => {
+        expect(saveBestRun(createRunLog())).toBe(true);
+        expect(saveBestRun(createRunLog({ finalScore: 900 }))).toBe(false);
+        expect(saveBestRun(createRunLog({ finalScore: 500, typingMode: 'strict' }))).toBe(true);
+        expect(saveBestRun(createRunLog({ finalScore: 1200, difficulty: 'hard' }))).toBe(true);
+
+        expect(getBestRun('1', 'medium')?.finalScore).toBe(1000);
+        expect(getBestRun('1', 'medium', 'strict')?.finalScore).toBe(500);
+        expect(getBestRun('1', 'medium', 'assist')).toBeNull();
+        expect(getBestRun('1', 'hard')?.finalScore).toBe(1200);
+    });
+
+    it('stores normal mode runs under the legacy key', () => {
+        saveBestRun(createRunLog({ typingMode: 'normal' }));
+
+        expect(Object.keys(getAllBestRuns())).toEqual(['1-medium']);
+    });
+
+    it('quarantines corrupt best runs instead of throwing', () => {
+        localStorage.setItem('lyric-karaoke-best-runs', '{not json');
+
+        expect(getBestRun('1', 'medium')).toBeNull();
+        expect(getQuarantinedRecords()).toHaveLength(1);
+        expect(getRepairCount()).toBe(1);
+    });
+});
+
+describe('storage migrations', () => {
+    async function migrateFrom(version: number): Promise<void> {
+        localStorage.setItem('lyric-karaoke-schema-version', String(version));
+        await runStorageMigrations(STORAGE_MIGRATIONS.filter(m => m.version === version + 1));
+        expect(getStorageVersion()).toBe(version + 1);
+    }
+
+    it('moves legacy high scores into the play history (0 to 1)', async () => {
+        const score = { songId: '1', trackName: 'Track', artistName: 'Artist', difficulty: 'easy', score: 500, accuracy: 0.8, maxCombo: 2, date: '2025-01-01T00:00:00.000Z' };
+        localStorage.setItem('lyric-karaoke-highscores', JSON.stringify([score, { songId: 2 }]));
+
+        await migrateFrom(0);
+
+        expect(await queryRuns({ profileId: 'default' })).toEqual([
+            { ...score, id: 1, profileId: 'default', lineResults: [], settings: null, stats: null, typingStats: null },
+        ]);
+        expect(localStorage.getItem('lyric-karaoke-highscores')).toBeNull();
+        expect(getQuarantinedRecords()).toHaveLength(1);
+    });
+
+    it('turns the old repair flag into a count of set-aside records (1 to 2)', async () => {
+        quarantineRecord('a', 1, 'bad');
+        quarantineRecord('b', 2, 'bad');
+        localStorage.setItem('lyric-karaoke-repair-notice', 'true');
+
+        await migrateFrom(1);
+
+        expect(getRepairCount()).toBe(2);
+    });
+
+    it('brings fresh storage up to the latest schema version', async () => {
+        await migrateStorage();
+
+        expect(getStorageVersion()).toBe(STORAGE_SCHEMA_VERSION);
+    });
+});
@@ -1,66 +1,81 @@
-import type { HighScore, Difficulty } from '../types';
+import type { HighScore, HouseholdScore, Difficulty, DifficultySettings, ErrorStatsEntry, PracticeRecord, RunErrorCounts, RunLog, RunRecord, TypingMode } from '../types';
+import { mergeErrorCounts } from './errorAnalytics';
+import { addRuns, clearRuns, queryRuns, toHighScore } from './history';
+import { getRunTypingMode } from './runLog';
+import { DEFAULT_PROFILE_ID, getActiveProfileId, getProfileKey, getProfiles, removeProfileEntry } from './profiles';
+import {
+    countLegacyRepairNotice,
+    isCustomLyricsRecord,
+    isDifficultySettingsRecord,
+    isErrorStatsRecord,
+    isHighScoreRecord,
+    isPracticeRecord,
+    isRunLogRecord,
+    isSongOffsetRecord,
+    readStoredList,
+    readStoredObject,
+    readStoredRecords,
+    runStorageMigrations,
+    type StorageMigration,
+} from './storageSchema';
 
-const STORAGE_KEY = 'lyric-karaoke-highscores';
 const MAX_SCORES_PER_SONG = 5;
 
 
-export function getAllHighScores(): HighScore[] {
-    const stored = localStorage.getItem(STORAGE_KEY);
-    if (!stored) return [];
-    return JSON.parse(stored) as HighScore[];
+function isRankedRun(run: RunRecord): boolean {
+    return !run.settings?.looped;
 }
 
 
-export function getHighScoresForSong(songId: string, difficulty?: Difficulty): HighScore[] {
-    const allScores = getAllHighScores();
-    return allScores
-        .filter(s => s.songId === songId && (difficulty === undefined || s.difficulty === difficulty))
-        .sort((a, b) => b.score - a.score)
-        .slice(0, MAX_SCORES_PER_SONG);
+export async function getAllHighScores(): Promise<HighScore[]> {
+    const runs = await queryRuns({ profileId: getActiveProfileId() });
+    return runs.filter(isRankedRun).map(toHighScore);
 }
 
 
-export function saveHighScore(score: HighScore): void {
-    const allScores = getAllHighScores();
-
-    allScores.push(score);
-
-    const grouped = new Map<string, HighScore[]>();
+export async function getHighScoresForSong(songId: string, difficulty?: Difficulty): Promise<HighScore[]> {
+    const runs = await queryRuns({ profileId: getActiveProfileId(), songId, difficulty });
+    return runs
+        .filter(isRankedRun)
+        .map(toHighScore)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, MAX_SCORES_PER_SONG);
+}
 
-    for (const s of allScores) {
-        const key = `${s.songId}-${s.difficulty}`;
-        if (!grouped.has(key)) {
-            grouped.set(key, []);
-        }
-        grouped.get(key)!.push(s);
-    }
 
-    const finalScores: HighScore[] = [];
-    for (const [, scores] of grouped) {
-        scores.sort((a, b) => b.score - a.score);
-        finalScores.push(...scores.slice(0, MAX_SCORES_PER_SONG));
+export async function getHouseholdLeaderboard(songId: string, difficulty?: Difficulty): Promise<HouseholdScore[]> {
+    const names = new Map(getProfiles().map(p => [p.id, p.name]));
+    const best = new Map<string, HouseholdScore>();
+    for (const run of (await queryRuns({ songId, difficulty })).filter(isRankedRun)) {
+        const key = `${run.profileId}-${run.difficulty}`;
+        if ((best.get(key)?.score ?? -1) >= run.score) continue;
+        best.set(key, {
+            ...toHighScore(run),
+            profileId: run.profileId,
+            profileName: names.get(run.profileId) ?? 'Deleted profile',
+        });
     }
-
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(finalScores));
+    return [...best.values()].sort((a, b) => b.score - a.score);
 }
 
 
-export function isHighScore(songId: string, difficulty: Difficulty, score: number): boolean {
-    const existingScores = getHighScoresForSong(songId, difficulty);
+export async function isHighScore(songId: string, difficulty: Difficulty, score: number): Promise<boolean> {
+    const existingScores = await getHighScoresForSong(songId, difficulty);
     if (existingScores.length < MAX_SCORES_PER_SONG) return true;
     return score > existingScores[existingScores.length - 1].score;
 }
 
 
-export function getTopScores(limit: number = 10): HighScore[] {
-    return getAllHighScores()
+export async function getTopScores(limit: number = 10): Promise<HighScore[]> {
+    const scores = await getAllHighScores();
+    return scores
         .sort((a, b) => b.score - a.score)
         .slice(0, limit);
 }
 
 
-export function clearAllHighScores(): void {
-    localStorage.removeItem(STORAGE_KEY);
+export async function clearAllHighScores(): Promise<void> {
+    await clearRuns(getActiveProfileId());
 }
 
 const SETTINGS_KEY = 'lyric-karaoke-settings';
@@ -70,24 +85,28 @@ export interface AppSettings {
     difficulty: Difficulty;
     volume: number;
     showUpcoming: boolean;
+    breakSkipEnabled: boolean;
+    preRollMs: number;
+    ghostEnabled: boolean;
 }
 
 const DEFAULT_SETTINGS: AppSettings = {
     difficulty: 'medium',
     volume: 0.7,
     showUpcoming: true,
+    breakSkipEnabled: true,
+    preRollMs: 0,
+    ghostEnabled: true,
 };
 
 export function getSettings(): AppSettings {
-    const stored = localStorage.getItem(SETTINGS_KEY);
-    if (!stored) return DEFAULT_SETTINGS;
-    return { ...DEFAULT_SETTINGS, ...JSON.parse(stored) };
+    return readStoredObject(getProfileKey(SETTINGS_KEY), DEFAULT_SETTINGS);
 }
 
 export function saveSettings(settings: Partial<AppSettings>): void {
     const current = getSettings();
     const updated = { ...current, ...settings };
-    localStorage.setItem(SETTINGS_KEY, JSON.stringify(updated));
+    localStorage.setItem(getProfileKey(SETTINGS_KEY), JSON.stringify(updated));
 }
 
 export function hasSeenOnboarding(): boolean {
@@ -101,3 +120,209 @@ export function setOnboardingSeen(): void {
 export function resetOnboarding(): void {
     localStorage.removeItem(ONBOARDING_KEY);
 }
+
+const CUSTOM_LYRICS_KEY = 'lyric-karaoke-custom-lyrics';
+
+export interface CustomLyrics {
+    songId: string;
+    trackName: string;
+    artistName: string;
+    lrc: string;
+    updatedAt: string;
+}
+
+export function getAllCustomLyrics(): Record<string, CustomLyrics> {
+    return readStoredRecords(CUSTOM_LYRICS_KEY, isCustomLyricsRecord);
+}
+
+export function getCustomLyrics(songId: string): CustomLyrics | null {
+    return getAllCustomLyrics()[songId] ?? null;
+}
+
+export function saveCustomLyrics(entry: CustomLyrics): void {
+    const all = getAllCustomLyrics();
+    all[entry.songId] = entry;
+    localStorage.setItem(CUSTOM_LYRICS_KEY, JSON.stringify(all));
+}
+
+export function deleteCustomLyrics(songId: string): void {
+    const all = getAllCustomLyrics();
+    delete all[songId];
+    localStorage.setItem(CUSTOM_LYRICS_KEY, JSON.stringify(all));
+}
+
+const SONG_OFFSETS_KEY = 'lyric-karaoke-song-offsets';
+
+export function getAllSongOffsets(): Record<string, number> {
+    return readStoredRecords(SONG_OFFSETS_KEY, isSongOffsetRecord);
+}
+
+export function getSongOffset(songId: string): number | null {
+    return getAllSongOffsets()[songId] ?? null;
+}
+
+export function saveSongOffset(songId: string, offset: number): void {
+    const all = getAllSongOffsets();
+    all[songId] = offset;
+    localStorage.setItem(SONG_OFFSETS_KEY, JSON.stringify(all));
+}
+
+const BEST_RUNS_KEY = 'lyric-karaoke-best-runs';
+
+export function getAllBestRuns(): Record<string, RunLog> {
+    return readStoredRecords(getProfileKey(BEST_RUNS_KEY), isRunLogRecord);
+}
+
+function getBestRunKey(songId: string, difficulty: Difficulty, typingMode: TypingMode): string {
+    return typingMode === 'normal' ? `${songId}-${difficulty}` : `${songId}-${difficulty}-${typingMode}`;
+}
+
+export function getBestRun(songId: string, difficulty: Difficulty, typingMode: TypingMode = 'normal'): RunLog | null {
+    return getAllBestRuns()[getBestRunKey(songId, difficulty, typingMode)] ?? null;
+}
+
+export function saveBestRun(runLog: RunLog): boolean {
+    const all = getAllBestRuns();
+    const key = getBestRunKey(runLog.songId, runLog.difficulty, getRunTypingMode(runLog));
+    const existing = all[key];
+    if (existing && (existing.finalScore ?? 0) >= (runLog.finalScore ?? 0)) return false;
+    all[key] = runLog;
+    localStorage.setItem(getProfileKey(BEST_RUNS_KEY), JSON.stringify(all));
+    return true;
+}
+
+const ERROR_STATS_KEY = 'lyric-karaoke-error-stats';
+
+export function getAllErrorStats(): ErrorStatsEntry[] {
+    return Object.values(readStoredRecords(getProfileKey(ERROR_STATS_KEY), isErrorStatsRecord));
+}
+
+export function saveErrorStats(
+    song: Pick<ErrorStatsEntry, 'songId' | 'trackName' | 'artistName' | 'difficulty'>,
+    counts: RunErrorCounts
+): void {
+    const all = readStoredRecords(getProfileKey(ERROR_STATS_KEY), isErrorStatsRecord);
+    const key = `${song.songId}-${song.difficulty}`;
+    const existing = all[key];
+
+    all[key] = {
+        ...song,
+        runs: (existing?.runs ?? 0) + 1,
+        characters: mergeErrorCounts(existing?.characters ?? {}, counts.characters),
+        bigrams: mergeErrorCounts(existing?.bigrams ?? {}, counts.bigrams),
+        updatedAt: new Date().toISOString(),
+    };
+    localStorage.setItem(getProfileKey(ERROR_STATS_KEY), JSON.stringify(all));
+}
+
+const PRACTICE_KEY = 'lyric-karaoke-practice';
+const MAX_PRACTICE_RECORDS = 50;
+
+export function getPracticeHistory(songId?: string, difficulty?: Difficulty): PracticeRecord[] {
+    return readStoredList(getProfileKey(PRACTICE_KEY), isPracticeRecord)
+        .filter(r => (songId === undefined || r.songId === songId) && (difficulty === undefined || r.difficulty === difficulty));
+}
+
+export function savePracticeRecord(record: PracticeRecord): void {
+    const all = [record, ...getPracticeHistory()].slice(0, MAX_PRACTICE_RECORDS);
+    localStorage.setItem(getProfileKey(PRACTICE_KEY), JSON.stringify(all));
+}
+
+const DIFFICULTY_PROFILES_KEY = 'lyric-karaoke-difficulty-profiles';
+
+export function getCustomDifficultyProfiles(): Record<string, DifficultySettings> {
+    return readStoredRecords(DIFFICULTY_PROFILES_KEY, isDifficultySettingsRecord);
+}
+
+export function saveCustomDifficultyProfile(id: Difficulty, settings: DifficultySettings): void {
+    const all = getCustomDifficultyProfiles();
+    all[id] = settings;
+    localStorage.setItem(DIFFICULTY_PROFILES_KEY, JSON.stringify(all));
+}
+
+export function deleteCustomDifficultyProfile(id: Difficulty): void {
+    const all = getCustomDifficultyProfiles();
+    delete all[id];
+    localStorage.setItem(DIFFICULTY_PROFILES_KEY, JSON.stringify(all));
+
+    for (const profile of getProfiles()) {
+        const key = getProfileKey(SETTINGS_KEY, profile.id);
+        const settings = readStoredObject(key, DEFAULT_SETTINGS);
+        if (settings.difficulty === id) {
+            localStorage.setItem(key, JSON.stringify({ ...settings, difficulty: DEFAULT_SETTINGS.difficulty }));
+        }
+    }
+}
+
+export interface StoredProfileData {
+    settings: AppSettings;
+    onboardingSeen: boolean;
+    customLyrics: Record<string, CustomLyrics>;
+    songOffsets: Record<string, number>;
+    bestRuns: Record<string, RunLog>;
+    errorStats: ErrorStatsEntry[];
+    practice: PracticeRecord[];
+    difficultyProfiles: Record<string, DifficultySettings>;
+}
+
+export function getStoredProfileData(): StoredProfileData {
+    return {
+        settings: getSettings(),
+        onboardingSeen: hasSeenOnboarding(),
+        customLyrics: getAllCustomLyrics(),
+        songOffsets: getAllSongOffsets(),
+        bestRuns: getAllBestRuns(),
+        errorStats: getAllErrorStats(),
+        practice: getPracticeHistory(),
+        difficultyProfiles: getCustomDifficultyProfiles(),
+    };
+}
+
+export function saveStoredProfileData(data: StoredProfileData): void {
+    localStorage.setItem(getProfileKey(SETTINGS_KEY), JSON.stringify(data.settings));
+    if (data.onboardingSeen) setOnboardingSeen();
+    localStorage.setItem(CUSTOM_LYRICS_KEY, JSON.stringify(data.customLyrics));
+    localStorage.setItem(SONG_OFFSETS_KEY, JSON.stringify(data.songOffsets));
+    localStorage.setItem(getProfileKey(BEST_RUNS_KEY), JSON.stringify(data.bestRuns));
+    localStorage.setItem(getProfileKey(ERROR_STATS_KEY), JSON.stringify(
+        Object.fromEntries(data.errorStats.map(entry => [`${entry.songId}-${entry.difficulty}`, entry]))
+    ));
+    localStorage.setItem(getProfileKey(PRACTICE_KEY), JSON.stringify(data.practice.slice(0, MAX_PRACTICE_RECORDS)));
+    localStorage.setItem(DIFFICULTY_PROFILES_KEY, JSON.stringify(data.difficultyProfiles));
+}
+
+export async function deleteProfile(profileId: string): Promise<void> {
+    await clearRuns(profileId);
+    for (const key of [SETTINGS_KEY, BEST_RUNS_KEY, ERROR_STATS_KEY, PRACTICE_KEY]) {
+        localStorage.removeItem(getProfileKey(key, profileId));
+    }
+    removeProfileEntry(profileId);
+}
+
+const LEGACY_HIGH_SCORES_KEY = 'lyric-karaoke-highscores';
+
+async function moveLegacyHighScores(): Promise<void> {
+    const scores = readStoredList(LEGACY_HIGH_SCORES_KEY, isHighScoreRecord);
+    if (scores.length > 0) {
+        await addRuns(scores.map(score => ({
+            ...score,
+            profileId: DEFAULT_PROFILE_ID,
+            lineResults: [],
+            settings: null,
+            stats: null,
+            typingStats: null,
+        })));
+    }
+    localStorage.removeItem(LEGACY_HIGH_SCORES_KEY);
+}
+
+export const STORAGE_MIGRATIONS: StorageMigration[] = [
+    { version: 1, migrate: moveLegacyHighScores },
+    { version: 2, migrate: countLegacyRepairNotice },
+];
+
+export const STORAGE_SCHEMA_VERSION = Math.max(...STORAGE_MIGRATIONS.map(m => m.version));
+
+export function migrateStorage(): Promise<void> {
+    return runStorageMigrations(STORAGE_MIGRATIONS);
+}
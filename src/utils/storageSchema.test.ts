@@ -0,0 +1,159 @@
+// @vitest-environment jsdom
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+    dismissRepairNotice,
+    getQuarantinedRecords,
+    getStorageVersion,
+    getRepairCount,
+    isRunLogRecord,
+    readStoredList,
+    readStoredObject,
+    readStoredRecords,
+    runStorageMigrations,
+    subscribeToRepairs,
+    sanitizeObject,
+} from './storageSchema';
+
+const isNumber = (value: unknown): value is number => typeof value === 'number';
+
+beforeEach(() => {
+    localStorage.clear();
+});
+
+describe('readStoredObject', () => {
+    it('returns defaults when nothing is stored', () => {
+        expect(readStoredObject('key', { a: 1 })).toEqual({ a: 1 });
+        expect(getRepairCount()).toBe(0);
+    });
+
+    it('quarantines invalid JSON and non-objects', () => {
+        localStorage.setItem('key', '{oops');
+        expect(readStoredObject('key', { a: 1 })).toEqual({ a: 1 });
+        expect(localStorage.getItem('key')).toBeNull();
+
+        localStorage.setItem('key', '[1]');
+        expect(readStoredObject('key', { a: 1 })).toEqual({ a: 1 });
+
+        expect(getQuarantinedRecords().map(record => record.reason)).toEqual([
+            'Stored value is not an object',
+            'Stored value is not valid JSON',
+        ]);
+        expect(getRepairCount()).toBe(2);
+    });
+
+    it('repairs mistyped fields and keeps the rest', () => {
+        localStorage.setItem('key', JSON.stringify({ a: 'one', b: true, extra: 1 }));
+
+        expect(readStoredObject('key', { a: 1, b: false })).toEqual({ a: 1, b: true });
+        expect(JSON.parse(localStorage.getItem('key')!)).toEqual({ a: 1, b: true });
+        expect(getQuarantinedRecords()[0].reason).toBe('Invalid fields: a');
+    });
+});
+
+describe('readStoredRecords and readStoredList', () => {
+    it('drops records that fail validation', () => {
+        localStorage.setItem('records', JSON.stringify({ x: 1, y: 'two' }));
+        localStorage.setItem('list', JSON.stringify([1, 'two', 3]));
+
+        expect(readStoredRecords('records', isNumber)).toEqual({ x: 1 });
+        expect(readStoredList('list', isNumber)).toEqual([1, 3]);
+        expect(getQuarantinedRecords().map(record => record.key)).toEqual(['list', 'records/y']);
+        expect(JSON.parse(localStorage.getItem('list')!)).toEqual([1, 3]);
+    });
+
+    it('discards collections of the wrong shape', () => {
+        localStorage.setItem('records', '[]');
+        localStorage.setItem('list', '{}');
+
+        expect(readStoredRecords('records', isNumber)).toEqual({});
+        expect(readStoredList('list', isNumber)).toEqual([]);
+        expect(localStorage.getItem('records')).toBeNull();
+        expect(localStorage.getItem('list')).toBeNull();
+    });
+});
+
+describe('repair notice', () => {
+    it('is dismissed without losing the quarantine', () => {
+        readStoredList('list', isNumber);
+        localStorage.setItem('list', 'nope');
+        readStoredList('list', isNumber);
+
+        dismissRepairNotice();
+        expect(getRepairCount()).toBe(0);
+        expect(getQuarantinedRecords()).toHaveLength(1);
+    });
+
+    it('counts the records set aside since it was last dismissed', async () => {
+        const listener = vi.fn();
+        const unsubscribe = subscribeToRepairs(listener);
+        localStorage.setItem('list', JSON.stringify(['a', 1, 'b']));
+        readStoredList('list', isNumber);
+
+        expect(getRepairCount()).toBe(2);
+        await Promise.resolve();
+        expect(listener).toHaveBeenLastCalledWith(2);
+
+        dismissRepairNotice();
+        localStorage.setItem('list', JSON.stringify(['c']));
+        readStoredList('list', isNumber);
+
+        expect(getRepairCount()).toBe(1);
+        expect(getQuarantinedRecords()).toHaveLength(3);
+        await Promise.resolve();
+        expect(listener).toHaveBeenLastCalledWith(1);
+        unsubscribe();
+    });
+
+    it('keeps at most 100 quarantined records', () => {
+        localStorage.setItem('list', JSON.stringify(Array.from({ length: 120 }, (_, i) => `bad-${i}`)));
+        readStoredList('list', isNumber);
+
+        expect(getQuarantinedRecords()).toHaveLength(100);
+    });
+});
+
+describe('schema guards', () => {
+    it('validates run logs including the optional typing mode and difficulty settings', () => {
+        const log = { version: 2, songId: '1', difficulty: 'medium', startedAt: '', lyricsOffset: 0, preRollMs: 0, events: [], submissions: [] };
+
+        expect(isRunLogRecord(log)).toBe(true);
+        expect(isRunLogRecord({ ...log, typingMode: 'strict' })).toBe(true);
+        expect(isRunLogRecord({ ...log, typingMode: 'turbo' })).toBe(false);
+        expect(isRunLogRecord({ ...log, difficultySettings: { name: 'Broken' } })).toBe(false);
+        expect(isRunLogRecord({ ...log, events: null })).toBe(false);
+    });
+
+    it('reports the fields that do not match the defaults', () => {
+        expect(sanitizeObject({ a: 2, b: 'x' }, { a: 1, b: 0 })).toEqual({ result: { a: 2, b: 0 }, invalidFields: ['b'] });
+    });
+});
+
+describe('runStorageMigrations', () => {
+    it('runs pending migrations in order and records each version', async () => {
+        const order: number[] = [];
+        const migrations = [2, 1, 3].map(version => ({ version, migrate: () => { order.push(version); } }));
+
+        await runStorageMigrations(migrations);
+        expect(order).toEqual([1, 2, 3]);
+        expect(getStorageVersion()).toBe(3);
+
+        await runStorageMigrations(migrations);
+        expect(order).toEqual([1, 2, 3]);
+    });
+
+    it('waits for async migrations and stops at a failing one so it is retried next time', async () => {
+        const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+        const third = vi.fn();
+
+        await runStorageMigrations([
+            { version: 1, migrate: async () => {} },
+            { version: 2, migrate: () => Promise.reject(new Error('boom')) },
+            { version: 3, migrate: third },
+        ]);
+
+        expect(getStorageVersion()).toBe(1);
+        expect(third).not.toHaveBeenCalled();
+        expect(error).toHaveBeenCalled();
+        error.mockRestore();
+    });
+});
@@ -0,0 +1,276 @@
+import type { CustomLyrics } from './storage';
+import type { DifficultySettings, ErrorStatsEntry, HighScore, PlayerProfile, PracticeRecord, RunLog, RunRecord, TypingMode } from '../types';
+
+export interface QuarantinedRecord {
+    key: string;
+    value: string;
+    reason: string;
+    date: string;
+}
+
+export interface StorageMigration {
+    version: number;
+    migrate: () => void | Promise<void>;
+}
+
+const SCHEMA_VERSION_KEY = 'lyric-karaoke-schema-version';
+const QUARANTINE_KEY = 'lyric-karaoke-quarantine';
+const REPAIR_NOTICE_KEY = 'lyric-karaoke-repair-notice';
+const MAX_QUARANTINED_RECORDS = 100;
+const TYPING_MODES: TypingMode[] = ['normal', 'strict', 'assist'];
+
+const repairListeners = new Set<(count: number) => void>();
+
+
+export function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+
+function hasFields(value: Record<string, unknown>, type: 'string' | 'number', fields: string[]): boolean {
+    return fields.every(field => type === 'number'
+        ? typeof value[field] === 'number' && Number.isFinite(value[field])
+        : typeof value[field] === 'string'
+    );
+}
+
+
+export function isHighScoreRecord(value: unknown): value is HighScore {
+    return isObject(value) &&
+        hasFields(value, 'string', ['songId', 'trackName', 'artistName', 'difficulty', 'date']) &&
+        hasFields(value, 'number', ['score', 'accuracy', 'maxCombo']);
+}
+
+
+export function isRunRecord(value: unknown): value is RunRecord {
+    return isHighScoreRecord(value) && Array.isArray((value as unknown as Record<string, unknown>).lineResults);
+}
+
+
+export function isCustomLyricsRecord(value: unknown): value is CustomLyrics {
+    return isObject(value) && hasFields(value, 'string', ['songId', 'trackName', 'artistName', 'lrc', 'updatedAt']);
+}
+
+
+export function isSongOffsetRecord(value: unknown): value is number {
+    return typeof value === 'number' && Number.isFinite(value);
+}
+
+
+export function isRunLogRecord(value: unknown): value is RunLog {
+    return isObject(value) &&
+        hasFields(value, 'string', ['songId', 'difficulty', 'startedAt']) &&
+        hasFields(value, 'number', ['version', 'lyricsOffset', 'preRollMs']) &&
+        (value.typingMode === undefined || TYPING_MODES.includes(value.typingMode as TypingMode)) &&
+        (value.difficultySettings === undefined || isDifficultySettingsRecord(value.difficultySettings)) &&
+        Array.isArray(value.events) &&
+        Array.isArray(value.submissions);
+}
+
+
+export function isErrorStatsRecord(value: unknown): value is ErrorStatsEntry {
+    return isObject(value) &&
+        hasFields(value, 'string', ['songId', 'trackName', 'artistName', 'difficulty', 'updatedAt']) &&
+        hasFields(value, 'number', ['runs']) &&
+        isObject(value.characters) &&
+        isObject(value.bigrams);
+}
+
+
+export function isPracticeRecord(value: unknown): value is PracticeRecord {
+    return isObject(value) &&
+        hasFields(value, 'string', ['songId', 'trackName', 'artistName', 'difficulty', 'date']) &&
+        Array.isArray(value.lines);
+}
+
+
+export function isDifficultySettingsRecord(value: unknown): value is DifficultySettings {
+    return isObject(value) &&
+        hasFields(value, 'string', ['name', 'description']) &&
+        hasFields(value, 'number', [
+            'perfectWindow', 'goodWindow', 'earlyPenalty', 'latePenalty', 'tooEarlyPenalty',
+            'tooLatePenalty', 'baseScoreMultiplier', 'comboMultiplier', 'perfectAccuracyThreshold',
+        ]);
+}
+
+
+export function isPlayerProfileRecord(value: unknown): value is PlayerProfile {
+    return isObject(value) && hasFields(value, 'string', ['id', 'name', 'createdAt']);
+}
+
+
+export function getQuarantinedRecords(): QuarantinedRecord[] {
+    try {
+        const stored = JSON.parse(localStorage.getItem(QUARANTINE_KEY) ?? '[]');
+        return Array.isArray(stored) ? stored : [];
+    } catch {
+        return [];
+    }
+}
+
+
+export function quarantineRecord(key: string, value: unknown, reason: string): void {
+    const record: QuarantinedRecord = {
+        key,
+        value: typeof value === 'string' ? value : JSON.stringify(value) ?? String(value),
+        reason,
+        date: new Date().toISOString(),
+    };
+    const all = [record, ...getQuarantinedRecords()].slice(0, MAX_QUARANTINED_RECORDS);
+    localStorage.setItem(QUARANTINE_KEY, JSON.stringify(all));
+    setRepairCount(getRepairCount() + 1);
+}
+
+
+export function getRepairCount(): number {
+    const count = Number(localStorage.getItem(REPAIR_NOTICE_KEY) ?? 0);
+    return Number.isInteger(count) && count > 0 ? count : 0;
+}
+
+
+function setRepairCount(count: number): void {
+    if (count > 0) {
+        localStorage.setItem(REPAIR_NOTICE_KEY, String(count));
+    } else {
+        localStorage.removeItem(REPAIR_NOTICE_KEY);
+    }
+    queueMicrotask(() => repairListeners.forEach(listener => listener(count)));
+}
+
+
+export function subscribeToRepairs(listener: (count: number) => void): () => void {
+    repairListeners.add(listener);
+    return () => {
+        repairListeners.delete(listener);
+    };
+}
+
+
+export function dismissRepairNotice(): void {
+    setRepairCount(0);
+}
+
+
+export function countLegacyRepairNotice(): void {
+    if (localStorage.getItem(REPAIR_NOTICE_KEY) === 'true') {
+        setRepairCount(getQuarantinedRecords().length);
+    }
+}
+
+
+export function parseStoredJson(key: string): unknown {
+    const stored = localStorage.getItem(key);
+    if (stored === null) return undefined;
+
+    try {
+        return JSON.parse(stored);
+    } catch {
+        quarantineRecord(key, stored, 'Stored value is not valid JSON');
+        localStorage.removeItem(key);
+        return undefined;
+    }
+}
+
+
+export function sanitizeObject<T extends object>(value: Record<string, unknown>, defaults: T): { result: T; invalidFields: string[] } {
+    const result = { ...defaults };
+    const invalidFields: string[] = [];
+    for (const field of Object.keys(defaults) as (keyof T & string)[]) {
+        if (!(field in value)) continue;
+        if (typeof value[field] === typeof defaults[field]) {
+            result[field] = value[field] as T[keyof T & string];
+        } else {
+            invalidFields.push(field);
+        }
+    }
+    return { result, invalidFields };
+}
+
+
+export function readStoredObject<T extends object>(key: string, defaults: T): T {
+    const stored = parseStoredJson(key);
+    if (stored === undefined) return defaults;
+
+    if (!isObject(stored)) {
+        quarantineRecord(key, stored, 'Stored value is not an object');
+        localStorage.removeItem(key);
+        return defaults;
+    }
+
+    const { result, invalidFields } = sanitizeObject(stored, defaults);
+    if (invalidFields.length > 0) {
+        quarantineRecord(key, stored, `Invalid fields: ${invalidFields.join(', ')}`);
+        localStorage.setItem(key, JSON.stringify(result));
+    }
+    return result;
+}
+
+
+export function readStoredRecords<T>(key: string, isValid: (value: unknown) => value is T): Record<string, T> {
+    const stored = parseStoredJson(key);
+    if (stored === undefined) return {};
+
+    if (!isObject(stored)) {
+        quarantineRecord(key, stored, 'Stored collection is not an object');
+        localStorage.removeItem(key);
+        return {};
+    }
+
+    const valid: Record<string, T> = {};
+    let repaired = false;
+    for (const [id, value] of Object.entries(stored)) {
+        if (isValid(value)) {
+            valid[id] = value;
+        } else {
+            quarantineRecord(`${key}/${id}`, value, 'Record does not match the expected shape');
+            repaired = true;
+        }
+    }
+
+    if (repaired) localStorage.setItem(key, JSON.stringify(valid));
+    return valid;
+}
+
+
+export function readStoredList<T>(key: string, isValid: (value: unknown) => value is T): T[] {
+    const stored = parseStoredJson(key);
+    if (stored === undefined) return [];
+
+    if (!Array.isArray(stored)) {
+        quarantineRecord(key, stored, 'Stored list is not an array');
+        localStorage.removeItem(key);
+        return [];
+    }
+
+    const valid = stored.filter(isValid);
+    if (valid.length !== stored.length) {
+        for (const value of stored.filter(value => !isValid(value))) {
+            quarantineRecord(key, value, 'Record does not match the expected shape');
+        }
+        localStorage.setItem(key, JSON.stringify(valid));
+    }
+    return valid;
+}
+
+
+export function getStorageVersion(): number {
+    const version = Number(localStorage.getItem(SCHEMA_VERSION_KEY) ?? 0);
+    return Number.isInteger(version) && version >= 0 ? version : 0;
+}
+
+
+export async function runStorageMigrations(migrations: StorageMigration[]): Promise<void> {
+    const pending = migrations
+        .filter(m => m.version > getStorageVersion())
+        .sort((a, b) => a.version - b.version);
+
+    for (const migration of pending) {
+        try {
+            await migration.migrate();
+            localStorage.setItem(SCHEMA_VERSION_KEY, String(migration.version));
+        } catch (error) {
+            console.error(`Storage migration ${migration.version} failed:`, error);
+            return;
+        }
+    }
+}
@@ -0,0 +1,122 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { isLyricFile, parseLyricsFile, parseSRT, parseTTML, parseWebVTT } from './subtitleParser';
+
+describe('parseSRT', () => {
+    it('parses cues and strips formatting', () => {
+        const { lines } = parseSRT([
+            '1',
+            '00:00:01,000 --> 00:00:03,500',
+            '<i>Hello</i> &amp; welcome',
+            '',
+            '2',
+            '00:00:04,000 --> 00:00:06,000',
+            'Second',
+            'row',
+        ].join('\r\n'));
+
+        expect(lines).toEqual([
+            { time: 1000, endTime: 3500, text: 'Hello & welcome' },
+            { time: 4000, endTime: 6000, text: 'Second row' },
+        ]);
+    });
+});
+
+describe('parseWebVTT', () => {
+    it('skips the header and note blocks', () => {
+        const { lines } = parseWebVTT([
+            'WEBVTT - lyrics',
+            '',
+            'NOTE ignored',
+            '',
+            '00:02.000 --> 00:04.000',
+            'First',
+            '',
+            'intro',
+            '00:05.000 --> 00:04.000',
+            'Second',
+        ].join('\n'));
+
+        expect(lines).toEqual([
+            { time: 2000, endTime: 4000, text: 'First' },
+            { time: 5000, endTime: 10000, text: 'Second' },
+        ]);
+    });
+});
+
+describe('parseTTML', () => {
+    it('reads paragraphs, agents and span timings relative to the paragraph', () => {
+        const { lines, metadata } = parseTTML(`<?xml version="1.0" encoding="UTF-8"?>
+<tt xmlns="http://www.w3.org/ns/ttml" xmlns:ttm="http://www.w3.org/ns/ttml#metadata">
+    <head><metadata><ttm:title>Song</ttm:title></metadata></head>
+    <body>
+        <div>
+            <p begin="10s" end="12.5s" ttm:agent="v1"><span begin="0s" end="0.5s">Hello</span> <span begin="0.5s" end="1.2s">world</span></p>
+            <p begin="00:00:15.000">Plain<br/>line</p>
+        </div>
+    </body>
+</tt>`);
+
+        expect(metadata).toEqual({ title: 'Song' });
+        expect(lines).toEqual([
+            {
+                time: 10000,
+                endTime: 12500,
+                text: 'Hello world',
+                words: [
+                    { time: 10000, endTime: 10500, text: 'Hello ' },
+                    { time: 10500, endTime: 11200, text: 'world' },
+                ],
+                voice: 'v1',
+            },
+            { time: 15000, endTime: 20000, text: 'Plain line', words: undefined, voice: undefined },
+        ]);
+    });
+
+    it('reads Apple-style absolute span timings', () => {
+        const { lines } = parseTTML(`<tt xmlns="http://www.w3.org/ns/ttml" xmlns:itunes="http://music.apple.com/lyric-ttml-internal" itunes:timing="Word">
+    <body>
+        <div begin="00:10.000" end="00:15.000">
+            <p begin="00:10.000" end="00:12.500"><span begin="00:10.000" end="00:10.500">Hello</span> <span begin="00:10.500" end="00:12.500">world</span></p>
+            <p begin="00:13.000" end="00:15.000"><span begin="00:13.000" end="00:15.000">Again</span></p>
+        </div>
+    </body>
+</tt>`);
+
+        expect(lines.map(line => line.words)).toEqual([
+            [
+                { time: 10000, endTime: 10500, text: 'Hello ' },
+                { time: 10500, endTime: 12500, text: 'world' },
+            ],
+            [{ time: 13000, endTime: 15000, text: 'Again' }],
+        ]);
+    });
+
+    it('treats span timings as relative when the document declares parallel timing', () => {
+        const { lines } = parseTTML(`<tt xmlns="http://www.w3.org/ns/ttml">
+    <body timeContainer="par">
+        <div>
+            <p begin="2s" end="6s"><span begin="2s" end="3s">Late</span> <span begin="3s" end="4s">start</span></p>
+        </div>
+    </body>
+</tt>`);
+
+        expect(lines[0].words).toEqual([
+            { time: 4000, endTime: 5000, text: 'Late ' },
+            { time: 5000, endTime: 6000, text: 'start' },
+        ]);
+    });
+
+    it('rejects malformed documents', () => {
+        expect(() => parseTTML('<tt><p>')).toThrow('Invalid TTML document');
+    });
+});
+
+describe('parseLyricsFile', () => {
+    it('dispatches on the file extension', () => {
+        expect(isLyricFile('song.VTT')).toBe(true);
+        expect(isLyricFile('song.txt')).toBe(false);
+        expect(parseLyricsFile('song.lrc', '[00:01.00]Hi').lines[0].text).toBe('Hi');
+        expect(() => parseLyricsFile('song.txt', '')).toThrow('Unsupported lyrics file: song.txt');
+    });
+});
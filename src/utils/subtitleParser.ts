@@ -0,0 +1,241 @@
+import type { LyricLine, LyricWord, ParsedLyrics } from '../types';
+import { parseLRC } from './lrcParser';
+
+export const LYRIC_FILE_EXTENSIONS = ['.lrc', '.srt', '.vtt', '.ttml', '.xml'];
+
+const CUE_TIMING_REGEX = /^\s*((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})\s*-->\s*((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})/;
+
+
+function parseClockTime(value: string): number {
+    const [clock, fraction = '0'] = value.trim().replace(',', '.').split('.');
+    const parts = clock.split(':').map(part => parseInt(part, 10));
+    const seconds = parts.reduce((total, part) => total * 60 + part, 0);
+    return seconds * 1000 + parseInt(fraction.padEnd(3, '0').slice(0, 3), 10);
+}
+
+
+function cleanCueText(text: string): string {
+    return text
+        .replace(/<[^>]*>/g, '')
+        .replace(/\{\\[^}]*\}/g, '')
+        .replace(/&amp;/g, '&')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&nbsp;/g, ' ')
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+
+function finalizeLines(lines: LyricLine[]): LyricLine[] {
+    const sorted = lines
+        .filter(line => line.text)
+        .sort((a, b) => a.time - b.time);
+
+    for (let i = 0; i < sorted.length; i++) {
+        const endTime = sorted[i].endTime;
+        if (endTime !== undefined && endTime > sorted[i].time) continue;
+        sorted[i].endTime = i < sorted.length - 1 ? sorted[i + 1].time : sorted[i].time + 5000;
+    }
+
+    for (const line of sorted) {
+        line.words?.forEach((word, i, words) => {
+            if (word.endTime === undefined) {
+                word.endTime = i < words.length - 1 ? words[i + 1].time : line.endTime;
+            }
+        });
+    }
+
+    return sorted;
+}
+
+
+function parseCueBlocks(content: string): LyricLine[] {
+    const lines: LyricLine[] = [];
+    const blocks = content.replace(/\r\n?/g, '\n').split(/\n{2,}/);
+
+    for (const block of blocks) {
+        const rows = block.split('\n');
+        const timingIndex = rows.findIndex(row => CUE_TIMING_REGEX.test(row));
+        if (timingIndex === -1) continue;
+
+        const timing = rows[timingIndex].match(CUE_TIMING_REGEX)!;
+        const text = cleanCueText(rows.slice(timingIndex + 1).join(' '));
+        if (!text) continue;
+
+        lines.push({
+            time: parseClockTime(timing[1]),
+            endTime: parseClockTime(timing[2]),
+            text,
+        });
+    }
+
+    return lines;
+}
+
+
+export function parseSRT(content: string): ParsedLyrics {
+    return { lines: finalizeLines(parseCueBlocks(content)), metadata: {} };
+}
+
+
+export function parseWebVTT(content: string): ParsedLyrics {
+    const body = content
+        .replace(/^\uFEFF?WEBVTT[^\n]*/, '')
+        .replace(/\r\n?/g, '\n')
+        .split(/\n{2,}/)
+        .filter(block => !/^(NOTE|STYLE|REGION)\b/.test(block.trim()))
+        .join('\n\n');
+
+    return { lines: finalizeLines(parseCueBlocks(body)), metadata: {} };
+}
+
+
+function parseTTMLTime(value: string | null, frameRate: number): number | undefined {
+    if (!value) return undefined;
+    const trimmed = value.trim();
+
+    const offsetMatch = trimmed.match(/^([\d.]+)(h|m|s|ms|f)$/);
+    if (offsetMatch) {
+        const amount = parseFloat(offsetMatch[1]);
+        switch (offsetMatch[2]) {
+            case 'h': return Math.round(amount * 3600000);
+            case 'm': return Math.round(amount * 60000);
+            case 's': return Math.round(amount * 1000);
+            case 'ms': return Math.round(amount);
+            case 'f': return Math.round(amount / frameRate * 1000);
+        }
+    }
+
+    const framesMatch = trimmed.match(/^(\d+):(\d{2}):(\d{2}):(\d+)$/);
+    if (framesMatch) {
+        const [, h, m, s, f] = framesMatch.map(Number);
+        return ((h * 60 + m) * 60 + s) * 1000 + Math.round(f / frameRate * 1000);
+    }
+
+    if (/^(\d+:)?\d{1,2}:\d{2}([.,]\d+)?$/.test(trimmed) || /^\d+([.,]\d+)?$/.test(trimmed)) {
+        return trimmed.includes(':')
+            ? parseClockTime(trimmed)
+            : Math.round(parseFloat(trimmed.replace(',', '.')) * 1000);
+    }
+
+    return undefined;
+}
+
+
+function getTTMLText(node: Node): string {
+    if (node.nodeType === Node.TEXT_NODE) return node.textContent ?? '';
+    if (node.nodeType !== Node.ELEMENT_NODE) return '';
+    if ((node as Element).localName === 'br') return ' ';
+    return Array.from(node.childNodes).map(getTTMLText).join('');
+}
+
+
+function declaresParallelTiming(element: Element): boolean {
+    for (let node: Element | null = element; node; node = node.parentElement) {
+        if (node.getAttribute('timeContainer') === 'par') return true;
+    }
+    return false;
+}
+
+
+function hasRelativeSpanTiming(paragraph: Element, words: LyricWord[], begin: number, end: number | undefined): boolean {
+    if (declaresParallelTiming(paragraph)) return true;
+    return words.some(word => [word.time, word.endTime].some(time =>
+        time !== undefined && (time < begin || (end !== undefined && time > end))
+    ));
+}
+
+
+export function parseTTML(content: string): ParsedLyrics {
+    const doc = new DOMParser().parseFromString(content, 'application/xml');
+    if (doc.getElementsByTagName('parsererror').length > 0) {
+        throw new Error('Invalid TTML document');
+    }
+
+    const root = doc.documentElement;
+    const frameRate = parseFloat(root.getAttribute('ttp:frameRate') ?? '') || 30;
+    const metadata: ParsedLyrics['metadata'] = {};
+
+    const title = doc.getElementsByTagNameNS('*', 'title')[0]?.textContent?.trim();
+    if (title) metadata.title = title;
+
+    const lines: LyricLine[] = [];
+    for (const paragraph of Array.from(doc.getElementsByTagNameNS('*', 'p'))) {
+        const time = parseTTMLTime(paragraph.getAttribute('begin'), frameRate);
+        if (time === undefined) continue;
+        const endTime = parseTTMLTime(paragraph.getAttribute('end'), frameRate);
+
+        const text = cleanCueText(getTTMLText(paragraph));
+        if (!text) continue;
+
+        const words: LyricWord[] = [];
+        for (const child of Array.from(paragraph.childNodes)) {
+            const previous = words[words.length - 1];
+            const begin = child.nodeType === Node.ELEMENT_NODE
+                ? parseTTMLTime((child as Element).getAttribute('begin'), frameRate)
+                : undefined;
+
+            if (begin === undefined) {
+                if (previous) previous.text += getTTMLText(child);
+                continue;
+            }
+
+            words.push({
+                time: begin,
+                endTime: parseTTMLTime((child as Element).getAttribute('end'), frameRate),
+                text: getTTMLText(child),
+            });
+        }
+
+        if (hasRelativeSpanTiming(paragraph, words, time, endTime)) {
+            for (const word of words) {
+                word.time += time;
+                if (word.endTime !== undefined) word.endTime += time;
+            }
+        }
+
+        words.forEach((word, i) => {
+            word.text = word.text.replace(/\s+/g, ' ');
+            if (i > 0 && words[i - 1].text.endsWith(' ')) {
+                word.text = word.text.trimStart();
+            }
+        });
+
+        const hasWordTiming = words.length > 0 &&
+            words.map(word => word.text).join('').trim() === text;
+
+        if (hasWordTiming) {
+            words[0].text = words[0].text.trimStart();
+            words[words.length - 1].text = words[words.length - 1].text.trimEnd();
+        }
+
+        lines.push({
+            time,
+            endTime,
+            text,
+            words: hasWordTiming ? words : undefined,
+            voice: paragraph.getAttribute('ttm:agent') ?? undefined,
+        });
+    }
+
+    return { lines: finalizeLines(lines), metadata };
+}
+
+
+export function isLyricFile(fileName: string): boolean {
+    const lower = fileName.toLowerCase();
+    return LYRIC_FILE_EXTENSIONS.some(ext => lower.endsWith(ext));
+}
+
+
+export function parseLyricsFile(fileName: string, content: string): ParsedLyrics {
+    const lower = fileName.toLowerCase();
+
+    if (lower.endsWith('.srt')) return parseSRT(content);
+    if (lower.endsWith('.vtt')) return parseWebVTT(content);
+    if (lower.endsWith('.ttml') || lower.endsWith('.xml')) return parseTTML(content);
+    if (lower.endsWith('.lrc')) return parseLRC(content);
+
+    throw new Error(`Unsupported lyrics file: ${fileName}`);
+}
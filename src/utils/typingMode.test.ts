@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { applyTypingMode, insertExpectedPunctuation } from './typingMode';
+
+describe('insertExpectedPunctuation', () => {
+    it('fills in punctuation the player skipped', () => {
+        expect(insertExpectedPunctuation('dont', "don't")).toBe("don't");
+        expect(insertExpectedPunctuation('hi there', 'hi, there!')).toBe('hi, there!');
+    });
+
+    it('leaves empty input alone', () => {
+        expect(insertExpectedPunctuation('', '...')).toBe('');
+    });
+});
+
+describe('applyTypingMode', () => {
+    it('passes text through in normal mode', () => {
+        expect(applyTypingMode('normal', 'ab', 'abc', 'abc')).toBe('ab');
+    });
+
+    it('blocks deletions in strict mode', () => {
+        expect(applyTypingMode('strict', 'ab', 'abc', 'abcd')).toBe('abc');
+        expect(applyTypingMode('strict', 'abcd', 'abc', 'abcd')).toBe('abcd');
+    });
+
+    it('inserts punctuation in assist mode', () => {
+        expect(applyTypingMode('assist', 'im', "I'm", "i'm")).toBe("i'm");
+    });
+});
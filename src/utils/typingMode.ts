@@ -0,0 +1,45 @@
+import type { TypingMode } from '../types';
+
+const PUNCTUATION_REGEX = /\p{P}/u;
+
+
+export function insertExpectedPunctuation(typed: string, expected: string): string {
+    if (typed.length === 0) return typed;
+
+    let alignedText = '';
+    let typedIdx = 0;
+    let expectedIdx = 0;
+
+    while (typedIdx < typed.length && expectedIdx < expected.length) {
+        const typedChar = typed[typedIdx];
+        const expectedChar = expected[expectedIdx];
+
+        if (PUNCTUATION_REGEX.test(expectedChar) && typedChar !== expectedChar) {
+            alignedText += expectedChar;
+            expectedIdx++;
+        } else {
+            alignedText += typedChar;
+            typedIdx++;
+            expectedIdx++;
+        }
+    }
+
+    while (expectedIdx < expected.length && PUNCTUATION_REGEX.test(expected[expectedIdx])) {
+        alignedText += expected[expectedIdx];
+        expectedIdx++;
+    }
+
+    return alignedText;
+}
+
+
+export function applyTypingMode(mode: TypingMode, text: string, previous: string, expected: string): string {
+    switch (mode) {
+        case 'normal':
+            return text;
+        case 'strict':
+            return text.length < previous.length ? previous : text;
+        case 'assist':
+            return insertExpectedPunctuation(text, expected);
+    }
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import type { KeystrokeEvent, RunLog } from '../types';
+import { parseLRC } from './lrcParser';
+import { calculateConsistency, calculateTypingStats } from './typingStats';
+
+const lyrics = parseLRC('[00:01.00]Hello\n[00:05.00]World\n[00:09.00]Skipped');
+
+function createLog(events: KeystrokeEvent[]): RunLog {
+    return {
+        version: 2,
+        songId: '1',
+        difficulty: 'medium',
+        romanized: false,
+        lyricsOffset: 0,
+        preRollMs: 0,
+        selectedVoice: null,
+        startedAt: '2026-01-01T00:00:00.000Z',
+        events,
+        submissions: [],
+    };
+}
+
+describe('calculateConsistency', () => {
+    it('scores steady speeds higher than uneven ones', () => {
+        expect(calculateConsistency([])).toBe(0);
+        expect(calculateConsistency([80])).toBe(100);
+        expect(calculateConsistency([60, 60, 60])).toBe(100);
+        expect(calculateConsistency([240, 120])).toBe(67);
+    });
+});
+
+describe('calculateTypingStats', () => {
+    it('separates corrected and uncorrected errors and measures speed per line', () => {
+        const stats = calculateTypingStats(createLog([
+            [1000, 0, 0, 'H', 1],
+            [1100, 0, 0, 'x', 0],
+            [1200, 0, 1, 'e', 1],
+            [1300, 0, 0, 'llo', 1],
+            [5000, 1, 0, 'Wp', 0],
+            [5500, 1, 0, 'rld', 0],
+            [9000, 2, 0, 'S', 1],
+        ]), lyrics);
+
+        expect(stats).toEqual({
+            rawWpm: 165,
+            netWpm: 90,
+            consistency: 67,
+            lineWpm: [
+                { lineIndex: 0, wpm: 240 },
+                { lineIndex: 1, wpm: 120 },
+            ],
+            typedCharacters: 12,
+            correctedErrors: 1,
+            uncorrectedErrors: 1,
+            errorRate: 2 / 12,
+            activeTimeMs: 800,
+        });
+    });
+
+    it('returns zeroes for a run without keystrokes', () => {
+        expect(calculateTypingStats(createLog([]), lyrics)).toMatchObject({
+            rawWpm: 0,
+            netWpm: 0,
+            consistency: 0,
+            errorRate: 0,
+        });
+    });
+});
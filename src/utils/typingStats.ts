@@ -0,0 +1,98 @@
+import type { ParsedLyrics, RunLog, TypingStats } from '../types';
+import { alignTypedToExpected, toTypingText } from './normalization';
+
+const MIN_TYPING_WINDOW_MS = 250;
+
+interface LineTyping {
+    text: string;
+    wrong: boolean[];
+    typed: number;
+    firstMs: number;
+    lastMs: number;
+}
+
+
+function toWpm(characters: number, durationMs: number): number {
+    if (durationMs <= 0) return 0;
+    return (characters / 5) / (durationMs / 60000);
+}
+
+
+export function calculateConsistency(values: number[]): number {
+    if (values.length === 0) return 0;
+    if (values.length === 1) return 100;
+
+    const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+    if (mean === 0) return 0;
+
+    const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length;
+    const coefficientOfVariation = Math.sqrt(variance) / mean;
+    return Math.round(Math.max(0, 1 - coefficientOfVariation) * 100);
+}
+
+
+export function calculateTypingStats(runLog: RunLog, lyrics: ParsedLyrics): TypingStats {
+    const lines = new Map<number, LineTyping>();
+    let typedCharacters = 0;
+    let correctedErrors = 0;
+
+    for (const [timeMs, lineIndex, deleted, inserted] of runLog.events) {
+        const line = lyrics.lines[lineIndex];
+        if (!line) continue;
+
+        const expected = toTypingText(line.text, runLog.romanized).toLowerCase();
+        const state = lines.get(lineIndex) ?? { text: '', wrong: [], typed: 0, firstMs: timeMs, lastMs: timeMs };
+
+        const kept = Math.max(0, state.text.length - deleted);
+        correctedErrors += state.wrong.slice(kept).filter(Boolean).length;
+
+        const text = state.text.slice(0, kept) + inserted;
+        const wrong = state.wrong.slice(0, kept);
+        const alignment = alignTypedToExpected(text, expected);
+        for (let i = kept; i < text.length; i++) {
+            wrong[i] = alignment[i] !== -1 && text[i].toLowerCase() !== expected[alignment[i]];
+        }
+
+        lines.set(lineIndex, {
+            text,
+            wrong,
+            typed: state.typed + inserted.length,
+            firstMs: state.firstMs,
+            lastMs: timeMs,
+        });
+        typedCharacters += inserted.length;
+    }
+
+    const lineWpm: TypingStats['lineWpm'] = [];
+    let activeTimeMs = 0;
+    let activeCharacters = 0;
+    let uncorrectedErrors = 0;
+
+    for (const [lineIndex, state] of [...lines.entries()].sort((a, b) => a[0] - b[0])) {
+        uncorrectedErrors += state.wrong.filter(Boolean).length;
+
+        const windowMs = state.lastMs - state.firstMs;
+        if (windowMs < MIN_TYPING_WINDOW_MS) continue;
+
+        activeTimeMs += windowMs;
+        activeCharacters += state.typed;
+        lineWpm.push({ lineIndex, wpm: Math.round(toWpm(state.typed, windowMs)) });
+    }
+
+    const rawWpm = toWpm(activeCharacters, activeTimeMs);
+    const netWpm = activeTimeMs > 0
+        ? Math.max(0, rawWpm - uncorrectedErrors / (activeTimeMs / 60000))
+        : 0;
+
+    return {
+        rawWpm: Math.round(rawWpm),
+        netWpm: Math.round(netWpm),
+        consistency: calculateConsistency(lineWpm.map(l => l.wpm)),
+        lineWpm,
+        typedCharacters,
+        correctedErrors,
+        uncorrectedErrors,
+        errorRate: typedCharacters > 0 ? (correctedErrors + uncorrectedErrors) / typedCharacters : 0,
+        activeTimeMs,
+    };
+}